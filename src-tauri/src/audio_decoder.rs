@@ -0,0 +1,365 @@
+//! Fallback decoding for audio the WebView can't play (ALAC, and some AIFF
+//! and FLAC files). Files are decoded with Symphonia and served as 16-bit WAV
+//! through the `decoded://` protocol. Samples are served as they're decoded,
+//! and range requests are supported so the audio element can seek.
+
+use std::collections::VecDeque;
+use std::fs::File;
+use std::path::{Path, PathBuf};
+use std::sync::{Arc, Condvar, Mutex};
+
+use percent_encoding::percent_decode_str;
+use symphonia::core::audio::SampleBuffer;
+use symphonia::core::codecs::{CodecParameters, DecoderOptions, CODEC_TYPE_NULL};
+use symphonia::core::errors::Error as SymphoniaError;
+use symphonia::core::formats::{FormatOptions, FormatReader};
+use symphonia::core::io::MediaSourceStream;
+use symphonia::core::meta::MetadataOptions;
+use symphonia::core::probe::Hint;
+use tauri::http::{header, Request, Response, StatusCode};
+use tauri::UriSchemeResponder;
+
+/// URI scheme the frontend loads decoded files from
+pub const SCHEME: &str = "decoded";
+
+// Decoded files kept in memory: the playing track, a preloaded one, and the
+// incoming track of a transition
+const CACHE_SIZE: usize = 3;
+
+const WAV_HEADER_SIZE: usize = 44;
+
+// Largest partial response. The audio element asks for the next range when
+// it needs more, so each request only copies a small slice of the file.
+const MAX_RANGE_SIZE: usize = 4 * 1024 * 1024;
+
+#[derive(Clone, Copy)]
+struct WavFormat {
+    sample_rate: u32,
+    channels: u16,
+    data_size: Option<usize>, // From the file's frame count, if it has one
+}
+
+#[derive(Default)]
+struct DecodeState {
+    format: Option<WavFormat>,
+    pcm: Vec<u8>, // 16-bit samples decoded so far
+    done: bool,
+    error: Option<String>,
+}
+
+/// A file being decoded on its own thread. Samples are appended as they're
+/// decoded, so the start of the file can be served before the end is ready.
+#[derive(Default)]
+struct DecodedAudio {
+    state: Mutex<DecodeState>,
+    progress: Condvar,
+}
+
+impl DecodedAudio {
+    fn decode(&self, path: &Path) {
+        let result = self.decode_samples(path);
+        let mut state = self.state.lock().unwrap();
+        state.done = true;
+        if let Err(message) = result {
+            eprintln!("[decoder] {}", message);
+            state.error = Some(message);
+        }
+        self.progress.notify_all();
+    }
+
+    fn set_format(&self, format: WavFormat) {
+        let mut state = self.state.lock().unwrap();
+        if state.format.is_none() {
+            state.pcm.reserve(format.data_size.unwrap_or(0));
+            state.format = Some(format);
+            self.progress.notify_all();
+        }
+    }
+
+    fn decode_samples(&self, path: &Path) -> Result<(), String> {
+        let (mut format, track_id, params) = open_audio(path)?;
+        let mut decoder = symphonia::default::get_codecs()
+            .make(&params, &DecoderOptions::default())
+            .map_err(|e| format!("Unsupported codec: {}", e))?;
+
+        let frames = params.n_frames.map(|n| n as usize);
+        // Most containers give the format and length up front, so the WAV
+        // header can be sent before anything is decoded
+        if let (Some(rate), Some(channels)) = (params.sample_rate, params.channels) {
+            let channels = channels.count();
+            self.set_format(WavFormat {
+                sample_rate: rate,
+                channels: channels as u16,
+                data_size: frames.map(|n| n * channels * 2),
+            });
+        }
+
+        let mut buffer: Option<SampleBuffer<i16>> = None;
+        let mut buffer_frames = 0;
+
+        loop {
+            let packet = match format.next_packet() {
+                Ok(packet) => packet,
+                Err(SymphoniaError::IoError(e))
+                    if e.kind() == std::io::ErrorKind::UnexpectedEof =>
+                {
+                    return Ok(())
+                }
+                Err(e) => return Err(format!("Failed to read audio: {}", e)),
+            };
+            if packet.track_id() != track_id {
+                continue;
+            }
+
+            let decoded = match decoder.decode(&packet) {
+                Ok(decoded) => decoded,
+                // A corrupt packet is skipped rather than failing the whole track
+                Err(SymphoniaError::DecodeError(_)) => continue,
+                Err(e) => return Err(format!("Failed to decode audio: {}", e)),
+            };
+
+            let spec = *decoded.spec();
+            let channels = spec.channels.count();
+            self.set_format(WavFormat {
+                sample_rate: spec.rate,
+                channels: channels as u16,
+                data_size: frames.map(|n| n * channels * 2),
+            });
+            if buffer.is_none() || decoded.capacity() > buffer_frames {
+                buffer_frames = decoded.capacity();
+                buffer = Some(SampleBuffer::new(buffer_frames as u64, spec));
+            }
+            if let Some(buffer) = buffer.as_mut() {
+                buffer.copy_interleaved_ref(decoded);
+                let mut state = self.state.lock().unwrap();
+                for sample in buffer.samples() {
+                    state.pcm.extend_from_slice(&sample.to_le_bytes());
+                }
+                self.progress.notify_all();
+            }
+        }
+    }
+
+    /// Wait until the size of the WAV file is known: straight away when the
+    /// file gives its frame count, otherwise once decoding has finished
+    fn wait_for_size(&self) -> Result<(WavFormat, usize), String> {
+        let state = self
+            .progress
+            .wait_while(self.state.lock().unwrap(), |state| {
+                !state.done && state.format.map_or(true, |f| f.data_size.is_none())
+            })
+            .unwrap();
+        match state.format {
+            Some(format) => {
+                let data_size = format.data_size.unwrap_or(state.pcm.len());
+                Ok((format, data_size))
+            }
+            None => Err(state
+                .error
+                .clone()
+                .unwrap_or_else(|| "No audio decoded".to_string())),
+        }
+    }
+
+    /// Copy an inclusive byte range of the WAV file, waiting for the samples
+    /// in it to be decoded. Anything past the decoded audio is silence.
+    fn read_range(&self, header: &[u8], start: usize, end: usize) -> Vec<u8> {
+        let mut body = Vec::with_capacity(end - start + 1);
+        if start < WAV_HEADER_SIZE {
+            body.extend_from_slice(&header[start..=end.min(WAV_HEADER_SIZE - 1)]);
+        }
+        if end >= WAV_HEADER_SIZE {
+            let from = start.max(WAV_HEADER_SIZE) - WAV_HEADER_SIZE;
+            let to = end + 1 - WAV_HEADER_SIZE;
+            let state = self
+                .progress
+                .wait_while(self.state.lock().unwrap(), |state| {
+                    !state.done && state.pcm.len() < to
+                })
+                .unwrap();
+            let available = state.pcm.len().min(to);
+            if from < available {
+                body.extend_from_slice(&state.pcm[from..available]);
+            }
+            body.resize(end - start + 1, 0);
+        }
+        body
+    }
+}
+
+/// Recently requested files, decoded or still decoding
+#[derive(Default)]
+pub struct DecodeCache {
+    entries: Mutex<VecDeque<(PathBuf, Arc<DecodedAudio>)>>,
+}
+
+impl DecodeCache {
+    /// Get a file's audio, starting to decode it if it isn't cached. The audio
+    /// element's parallel range requests for a file share a single decode,
+    /// and different files decode side by side.
+    fn get_or_decode(&self, path: &Path) -> Arc<DecodedAudio> {
+        let mut entries = self.entries.lock().unwrap();
+        if let Some((_, audio)) = entries.iter().find(|(cached, _)| cached == path) {
+            return Arc::clone(audio);
+        }
+
+        let audio = Arc::new(DecodedAudio::default());
+        entries.push_back((path.to_path_buf(), Arc::clone(&audio)));
+        while entries.len() > CACHE_SIZE {
+            entries.pop_front();
+        }
+
+        let decoding = Arc::clone(&audio);
+        let path = path.to_path_buf();
+        std::thread::spawn(move || decoding.decode(&path));
+        audio
+    }
+}
+
+/// Open a file and find its first audio track
+fn open_audio(path: &Path) -> Result<(Box<dyn FormatReader>, u32, CodecParameters), String> {
+    let file = File::open(path).map_err(|e| format!("Failed to open {}: {}", path.display(), e))?;
+    let stream = MediaSourceStream::new(Box::new(file), Default::default());
+
+    let mut hint = Hint::new();
+    if let Some(extension) = path.extension().and_then(|e| e.to_str()) {
+        hint.with_extension(extension);
+    }
+
+    let probed = symphonia::default::get_probe()
+        .format(
+            &hint,
+            stream,
+            &FormatOptions::default(),
+            &MetadataOptions::default(),
+        )
+        .map_err(|e| format!("Unrecognised audio format: {}", e))?;
+
+    let format = probed.format;
+    let track = format
+        .tracks()
+        .iter()
+        .find(|t| t.codec_params.codec != CODEC_TYPE_NULL)
+        .ok_or_else(|| "No audio track found".to_string())?;
+    let track_id = track.id;
+    let params = track.codec_params.clone();
+    Ok((format, track_id, params))
+}
+
+/// The 44-byte header of a 16-bit PCM WAV file
+fn wav_header(format: WavFormat, data_size: usize) -> Vec<u8> {
+    let data_size = data_size as u32;
+    let block_align = format.channels * 2;
+
+    let mut header = Vec::with_capacity(WAV_HEADER_SIZE);
+    header.extend_from_slice(b"RIFF");
+    header.extend_from_slice(&(36 + data_size).to_le_bytes());
+    header.extend_from_slice(b"WAVE");
+    header.extend_from_slice(b"fmt ");
+    header.extend_from_slice(&16u32.to_le_bytes()); // fmt chunk size
+    header.extend_from_slice(&1u16.to_le_bytes()); // PCM
+    header.extend_from_slice(&format.channels.to_le_bytes());
+    header.extend_from_slice(&format.sample_rate.to_le_bytes());
+    header.extend_from_slice(&(format.sample_rate * block_align as u32).to_le_bytes());
+    header.extend_from_slice(&block_align.to_le_bytes());
+    header.extend_from_slice(&16u16.to_le_bytes()); // Bits per sample
+    header.extend_from_slice(b"data");
+    header.extend_from_slice(&data_size.to_le_bytes());
+    header
+}
+
+/// Parse a `Range: bytes=start-end` header into an inclusive byte range
+fn parse_range(value: &str, total: usize) -> Option<(usize, usize)> {
+    let spec = value.strip_prefix("bytes=")?;
+    let (start, end) = spec.split_once('-')?;
+    if total == 0 {
+        return None;
+    }
+
+    let (start, end) = if start.is_empty() {
+        // Suffix range: the last N bytes
+        let length: usize = end.parse().ok()?;
+        (total.saturating_sub(length), total - 1)
+    } else {
+        let start: usize = start.parse().ok()?;
+        let end = if end.is_empty() {
+            total - 1
+        } else {
+            end.parse::<usize>().ok()?.min(total - 1)
+        };
+        (start, end)
+    };
+    (start <= end && start < total).then_some((start, end))
+}
+
+fn respond(cache: &DecodeCache, request: &Request<Vec<u8>>) -> Response<Vec<u8>> {
+    // The frontend builds URLs with convertFileSrc: the path is percent-encoded
+    let encoded = request.uri().path().trim_start_matches('/');
+    let path = PathBuf::from(percent_decode_str(encoded).decode_utf8_lossy().into_owned());
+
+    let audio = cache.get_or_decode(&path);
+    let (format, data_size) = match audio.wait_for_size() {
+        Ok(size) => size,
+        Err(message) => {
+            return Response::builder()
+                .status(StatusCode::UNSUPPORTED_MEDIA_TYPE)
+                .header(header::ACCESS_CONTROL_ALLOW_ORIGIN, "*")
+                .body(message.into_bytes())
+                .unwrap();
+        }
+    };
+    let header_bytes = wav_header(format, data_size);
+    let total = WAV_HEADER_SIZE + data_size;
+
+    let builder = Response::builder()
+        .header(header::CONTENT_TYPE, "audio/wav")
+        .header(header::ACCEPT_RANGES, "bytes")
+        // Web Audio reads the samples, which needs CORS
+        .header(header::ACCESS_CONTROL_ALLOW_ORIGIN, "*");
+
+    let range = request
+        .headers()
+        .get(header::RANGE)
+        .and_then(|value| value.to_str().ok())
+        .and_then(|value| parse_range(value, total));
+
+    match range {
+        Some((start, end)) => {
+            let end = end.min(start + MAX_RANGE_SIZE - 1);
+            builder
+                .status(StatusCode::PARTIAL_CONTENT)
+                .header(
+                    header::CONTENT_RANGE,
+                    format!("bytes {}-{}/{}", start, end, total),
+                )
+                .body(audio.read_range(&header_bytes, start, end))
+                .unwrap()
+        }
+        // A plain fetch, e.g. to analyse the whole track, gets the whole file
+        None => builder
+            .status(StatusCode::OK)
+            .body(audio.read_range(&header_bytes, 0, total - 1))
+            .unwrap(),
+    }
+}
+
+/// Handle a request on the `decoded://` protocol. A request may wait for
+/// samples to be decoded, so it runs off the main thread.
+pub fn handle_request(
+    cache: Arc<DecodeCache>,
+    request: Request<Vec<u8>>,
+    responder: UriSchemeResponder,
+) {
+    std::thread::spawn(move || responder.respond(respond(&cache, &request)));
+}
+
+/// Identify the codec of a file's audio, e.g. "alac", "flac" or "pcm_s24be"
+#[tauri::command]
+pub async fn probe_audio_codec(path: String) -> Result<String, String> {
+    let (_, _, params) = open_audio(Path::new(&path))?;
+    let codec = symphonia::default::get_codecs()
+        .get_codec(params.codec)
+        .map(|descriptor| descriptor.short_name.to_string())
+        .unwrap_or_else(|| "unknown".to_string());
+    Ok(codec)
+}
@@ -0,0 +1,59 @@
+//! A system-wide hotkey that reveals the answer or moves to the next track,
+//! so the quiz can be driven while another app has focus. Presses are sent
+//! to the frontend as `SHORTCUT_EVENT`.
+
+use std::sync::Mutex;
+
+use tauri::{AppHandle, Emitter, State};
+use tauri_plugin_global_shortcut::{GlobalShortcutExt, Shortcut, ShortcutState};
+
+/// Event emitted when the hotkey is pressed
+pub const SHORTCUT_EVENT: &str = "global-shortcut";
+
+/// The hotkey currently registered, if any
+#[derive(Default)]
+pub struct RegisteredShortcut(Mutex<Option<Shortcut>>);
+
+/// Register `shortcut` (e.g. "CmdOrCtrl+Shift+Enter") as the reveal/next
+/// hotkey, replacing any earlier one. An empty string removes it. If the new
+/// shortcut can't be registered the old one stays in place.
+#[tauri::command]
+pub fn set_global_shortcut(
+    app: AppHandle,
+    registered: State<'_, RegisteredShortcut>,
+    shortcut: String,
+) -> Result<(), String> {
+    let accelerator = shortcut.trim();
+    let shortcut = if accelerator.is_empty() {
+        None
+    } else {
+        Some(
+            accelerator
+                .parse::<Shortcut>()
+                .map_err(|e| format!("Not a valid shortcut: {}", e))?,
+        )
+    };
+
+    let mut current = registered.0.lock().unwrap();
+    if *current == shortcut {
+        return Ok(());
+    }
+
+    let global_shortcut = app.global_shortcut();
+    if let Some(shortcut) = shortcut {
+        global_shortcut
+            .on_shortcut(shortcut, |app, _shortcut, event| {
+                if event.state() == ShortcutState::Pressed {
+                    let _ = app.emit(SHORTCUT_EVENT, ());
+                }
+            })
+            .map_err(|e| format!("Couldn't register {}: {}", accelerator, e))?;
+    }
+    if let Some(old) = current.take() {
+        if let Err(e) = global_shortcut.unregister(old) {
+            eprintln!("[shortcut] Failed to unregister the old shortcut: {}", e);
+        }
+    }
+    *current = shortcut;
+    Ok(())
+}
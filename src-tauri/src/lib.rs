@@ -1,3 +1,8 @@
+use std::sync::Arc;
+
+mod audio_decoder;
+mod global_shortcut;
+
 // Learn more about Tauri commands at https://tauri.app/develop/calling-rust/
 #[tauri::command]
 fn greet(name: &str) -> String {
@@ -6,12 +11,26 @@ fn greet(name: &str) -> String {
 
 #[cfg_attr(mobile, tauri::mobile_entry_point)]
 pub fn run() {
+    let decode_cache = Arc::new(audio_decoder::DecodeCache::default());
+
     tauri::Builder::default()
         .plugin(tauri_plugin_dialog::init())
         .plugin(tauri_plugin_fs::init())
         .plugin(tauri_plugin_opener::init())
         .plugin(tauri_plugin_shell::init())
-        .invoke_handler(tauri::generate_handler![greet])
+        .plugin(tauri_plugin_global_shortcut::Builder::new().build())
+        .manage(global_shortcut::RegisteredShortcut::default())
+        .register_asynchronous_uri_scheme_protocol(
+            audio_decoder::SCHEME,
+            move |_ctx, request, responder| {
+                audio_decoder::handle_request(Arc::clone(&decode_cache), request, responder)
+            },
+        )
+        .invoke_handler(tauri::generate_handler![
+            greet,
+            audio_decoder::probe_audio_codec,
+            global_shortcut::set_global_shortcut
+        ])
         .run(tauri::generate_context!())
         .expect("error while running tauri application");
 }
@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { open } from "@tauri-apps/plugin-dialog";
 import {
   parseRekordboxXml,
@@ -6,17 +6,74 @@ import {
   fileExists,
   RekordboxLibrary,
   PlaylistNode,
+  Track,
 } from "./lib/rekordbox-parser";
 import { readRekordboxDatabase } from "./lib/database-reader";
-import { QuizEngine, QuizState } from "./lib/quiz-engine";
+import {
+  QuizEngine,
+  QuizState,
+  AnswerMode,
+  ExcerptMode,
+  Grade,
+  PROGRESSIVE_STEPS,
+  RoundType,
+  TransitionSide,
+} from "./lib/quiz-engine";
+import { TypedAnswer } from "./lib/answer-grading";
+import { SelectionStrategy } from "./lib/scheduler";
+import { StartPointStrategy } from "./lib/excerpt";
+import { BeatSnap } from "./lib/beat-grid";
+import { SpeedMode } from "./lib/speed-round";
+import { DifficultyFilters, NO_FILTERS } from "./lib/difficulty";
+import { transitionFilters } from "./lib/transition";
+import { Hint } from "./lib/hints";
+import { subscribeFallbackFormats } from "./lib/audio-format";
+import { getSettings } from "./lib/settings";
+import { onGlobalShortcut, setGlobalShortcut } from "./lib/global-shortcut";
+import { findMatchingTracks } from "./lib/track-rules";
+import {
+  SavedFilter,
+  deleteFilter,
+  getSavedFilters,
+  subscribeSavedFilters,
+} from "./lib/saved-filters";
+import {
+  PlaylistExpression,
+  findSamePlaylist,
+  remapPlaylistExpression,
+  singlePlaylist,
+} from "./lib/playlist-sets";
+import { LibraryChanges, diffLibraries, hasChanges, newTracksPlaylist } from "./lib/library-diff";
+import { loadLibrarySnapshot, saveLibrarySnapshot } from "./lib/library-snapshot";
 import { Player } from "./components/Player";
 import { RevealCard } from "./components/RevealCard";
 import { PlaylistBrowser } from "./components/PlaylistBrowser";
+import { FilterBuilder } from "./components/FilterBuilder";
+import { ChangeReport } from "./components/ChangeReport";
 import { SourceChooser, DataSourceType } from "./components/SourceChooser";
+import { QuizOptions } from "./components/QuizOptions";
+import { Scoreboard } from "./components/Scoreboard";
+import { HintControls, HINT_KEYS } from "./components/HintControls";
+import { SessionSummary } from "./components/SessionSummary";
+import { SpeedTimer } from "./components/SpeedTimer";
+import { SettingsPanel } from "./components/SettingsPanel";
+import { TrackOverview } from "./components/TrackOverview";
 import "./App.css";
 
 const STORAGE_KEY_SOURCE_TYPE = "rekordbox-source-type";
 const STORAGE_KEY_XML_PATH = "rekordbox-xml-path";
+const STORAGE_KEY_ANSWER_MODE = "quiz-answer-mode";
+const STORAGE_KEY_ROUND_TYPE = "quiz-round-type";
+const STORAGE_KEY_SELECTION_STRATEGY = "quiz-selection-strategy";
+const STORAGE_KEY_EXCERPT_MODE = "quiz-excerpt-mode";
+const STORAGE_KEY_START_POINT = "quiz-start-point";
+const STORAGE_KEY_BEAT_SNAP = "quiz-beat-snap";
+const STORAGE_KEY_SPEED_MODE = "quiz-speed-mode";
+const STORAGE_KEY_DIFFICULTY_FILTERS = "quiz-difficulty-filters";
+
+// Number keys 1–3 after reveal grade the round yourself; in a transition
+// round 1–3 grade the outgoing track and 4–6 the incoming one
+const SELF_GRADE_KEYS: Grade[] = ["correct", "partial", "missed"];
 
 type AppState =
   | { status: "choosing" }
@@ -27,11 +84,30 @@ type AppState =
 function App() {
   const [appState, setAppState] = useState<AppState>({ status: "loading" });
   const [quizState, setQuizState] = useState<QuizState | null>(null);
-  const [selectedPlaylist, setSelectedPlaylist] = useState<PlaylistNode | null>(
+  const [playlistSelection, setPlaylistSelection] = useState<PlaylistExpression | null>(
     null
   );
   const [xmlPath, setXmlPath] = useState<string | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+  const [fallbackFormats, setFallbackFormats] = useState<Map<string, number>>(new Map());
+  const [savedFilters, setSavedFilters] = useState<SavedFilter[]>(getSavedFilters);
+  const [selectedFilterId, setSelectedFilterId] = useState<string | null>(null);
+  // The filter open in the builder; null inside means a new filter
+  const [filterBuilder, setFilterBuilder] = useState<{ filter: SavedFilter | null } | null>(null);
+  // What the last refresh that found changes found, kept with the snapshot
+  const [libraryChanges, setLibraryChanges] = useState<LibraryChanges | null>(null);
+  const [newTracks, setNewTracks] = useState<PlaylistNode | null>(null);
+  const [changeReport, setChangeReport] = useState<LibraryChanges | null>(null);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [refreshError, setRefreshError] = useState<string | null>(null);
+  // A background read that finished, waiting to be swapped in
+  const [refreshed, setRefreshed] = useState<{
+    engine: QuizEngine;
+    library: RekordboxLibrary;
+    changes: LibraryChanges | null;
+  } | null>(null);
   const engineRef = useRef<QuizEngine | null>(null);
+  const readyEngine = appState.status === "ready" ? appState.engine : null;
 
   // Check for saved preference on mount
   useEffect(() => {
@@ -45,11 +121,108 @@ function App() {
 
   // Subscribe to quiz state changes
   useEffect(() => {
+    if (readyEngine) {
+      engineRef.current = readyEngine;
+      const savedAnswerMode = localStorage.getItem(STORAGE_KEY_ANSWER_MODE) as AnswerMode | null;
+      if (savedAnswerMode) {
+        readyEngine.setAnswerMode(savedAnswerMode);
+      }
+      const savedRoundType = localStorage.getItem(STORAGE_KEY_ROUND_TYPE) as RoundType | null;
+      if (savedRoundType) {
+        readyEngine.setRoundType(savedRoundType);
+      }
+      const savedStrategy = localStorage.getItem(STORAGE_KEY_SELECTION_STRATEGY) as SelectionStrategy | null;
+      if (savedStrategy) {
+        readyEngine.setSelectionStrategy(savedStrategy);
+      }
+      const savedExcerptMode = localStorage.getItem(STORAGE_KEY_EXCERPT_MODE) as ExcerptMode | null;
+      if (savedExcerptMode) {
+        readyEngine.setExcerptMode(savedExcerptMode);
+      }
+      const savedStartPoint = localStorage.getItem(STORAGE_KEY_START_POINT) as StartPointStrategy | null;
+      if (savedStartPoint) {
+        readyEngine.setStartPointStrategy(savedStartPoint);
+      }
+      const savedBeatSnap = localStorage.getItem(STORAGE_KEY_BEAT_SNAP) as BeatSnap | null;
+      if (savedBeatSnap) {
+        readyEngine.setBeatSnap(savedBeatSnap);
+      }
+      const savedSpeedMode = localStorage.getItem(STORAGE_KEY_SPEED_MODE) as SpeedMode | null;
+      if (savedSpeedMode) {
+        readyEngine.setSpeedMode(savedSpeedMode);
+      }
+      const savedFilters = localStorage.getItem(STORAGE_KEY_DIFFICULTY_FILTERS);
+      if (savedFilters) {
+        try {
+          readyEngine.setFilters({ ...NO_FILTERS, ...JSON.parse(savedFilters) });
+        } catch {
+          // Corrupt value - keep the defaults
+        }
+      }
+      return readyEngine.subscribe(setQuizState);
+    }
+  }, [readyEngine]);
+
+  // Formats the backend had to decode because the WebView couldn't play them
+  useEffect(() => subscribeFallbackFormats(setFallbackFormats), []);
+
+  useEffect(() => subscribeSavedFilters(setSavedFilters), []);
+
+  // A new library starts on all tracks
+  useEffect(() => {
+    setPlaylistSelection(null);
+    setSelectedFilterId(null);
+    setFilterBuilder(null);
+    setChangeReport(null);
+  }, [readyEngine]);
+
+  // Swap in a refreshed library, keeping the session and the current pool
+  useEffect(() => {
+    if (!refreshed) return;
+    setRefreshed(null);
+    const { engine, library, changes } = refreshed;
+    // Nothing to do if nothing changed, or the library was replaced meanwhile
+    if (appState.status !== "ready" || engine !== appState.engine || !changes) return;
+
+    const previous = appState.library;
+    const nextNewTracks = newTracksPlaylist(changes, library.tracks);
+    const selection =
+      playlistSelection &&
+      remapPlaylistExpression(playlistSelection, (node) =>
+        node === newTracks
+          ? nextNewTracks
+          : findSamePlaylist(node, previous.playlists, library.playlists)
+      );
+    const filter = savedFilters.find((saved) => saved.id === selectedFilterId);
+    engine.setTracks(library.tracks, filter ? filter.rule : selection);
+
+    setPlaylistSelection(filter ? null : selection);
+    setNewTracks(nextNewTracks);
+    setLibraryChanges(changes);
+    setChangeReport(changes);
+    setAppState({ ...appState, library });
+  }, [refreshed]);
+
+  const filterCounts = useMemo(() => {
+    const counts = new Map<string, number>();
     if (appState.status === "ready") {
-      engineRef.current = appState.engine;
-      return appState.engine.subscribe(setQuizState);
+      for (const filter of savedFilters) {
+        counts.set(filter.id, findMatchingTracks(filter.rule, appState.library.tracks.values()).length);
+      }
     }
-  }, [appState]);
+    return counts;
+  }, [appState, savedFilters]);
+
+  // The system-wide shortcut reveals or moves on without focusing the window
+  useEffect(() => {
+    const { globalShortcut } = getSettings();
+    if (globalShortcut) {
+      setGlobalShortcut(globalShortcut).catch((err) => {
+        console.error(`Failed to register the global shortcut ${globalShortcut}:`, err);
+      });
+    }
+    return onGlobalShortcut(() => engineRef.current?.advance());
+  }, []);
 
   // Keyboard shortcuts
   useEffect(() => {
@@ -57,14 +230,34 @@ function App() {
       // Ignore if typing in an input
       if (
         e.target instanceof HTMLInputElement ||
-        e.target instanceof HTMLTextAreaElement
+        e.target instanceof HTMLTextAreaElement ||
+        e.target instanceof HTMLSelectElement
       ) {
         return;
       }
+      if (showSettings) {
+        if (e.code === "Escape") {
+          setShowSettings(false);
+        }
+        return;
+      }
 
       const engine = engineRef.current;
       if (!engine) return;
 
+      // Holding a hint key down doesn't take the hint again
+      const hint = (Object.keys(HINT_KEYS) as Hint[]).find(
+        (h) => `Key${HINT_KEYS[h]}` === e.code
+      );
+      if (hint) {
+        // Leave Cmd/Ctrl shortcuts alone
+        if (!e.repeat && quizState?.canUseHints && !e.metaKey && !e.ctrlKey) {
+          e.preventDefault();
+          engine.takeHint(hint);
+        }
+        return;
+      }
+
       switch (e.code) {
         case "Space":
           e.preventDefault();
@@ -72,25 +265,79 @@ function App() {
           break;
         case "Enter":
           e.preventDefault();
-          if (quizState?.isRevealed) {
-            engine.nextTrack();
-          } else if (quizState?.currentTrack) {
-            engine.reveal();
-          } else {
-            engine.nextTrack();
+          engine.advance();
+          break;
+        case "ArrowRight":
+          if (quizState && quizState.progressiveStep !== null && !quizState.isRevealed) {
+            e.preventDefault();
+            engine.extendExcerpt();
           }
           break;
+        case "Digit1":
+        case "Digit2":
+        case "Digit3":
+        case "Digit4":
+        case "Digit5":
+        case "Digit6": {
+          const index = Number(e.code.slice(-1)) - 1;
+          const choice = quizState?.choices?.[index];
+          if (choice && !quizState?.isRevealed) {
+            e.preventDefault();
+            engine.choose(choice.id);
+          } else if (
+            quizState?.isRevealed &&
+            quizState.answerMode === "reveal" &&
+            quizState.grade === null
+          ) {
+            const grade = SELF_GRADE_KEYS[index % SELF_GRADE_KEYS.length];
+            if (quizState.incomingTrack) {
+              e.preventDefault();
+              engine.selfGrade(grade, index < SELF_GRADE_KEYS.length ? "outgoing" : "incoming");
+            } else if (index < SELF_GRADE_KEYS.length) {
+              e.preventDefault();
+              engine.selfGrade(grade);
+            }
+          }
+          break;
+        }
       }
     };
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [quizState]);
+  }, [quizState, showSettings]);
+
+  /**
+   * Make the engine for a newly loaded library, releasing the one it replaces
+   */
+  const createEngine = (tracks: Map<string, Track>) => {
+    engineRef.current?.detach();
+    engineRef.current = null;
+    return new QuizEngine(tracks);
+  };
 
   const loadFromSourceType = async (sourceType: DataSourceType) => {
     setAppState({ status: "loading" });
 
     try {
+      // Show the library as it was last read, and read the source again behind it
+      const savedPath = localStorage.getItem(STORAGE_KEY_XML_PATH);
+      const snapshot = await loadLibrarySnapshot(
+        sourceType,
+        sourceType === "xml" ? savedPath : null
+      );
+      if (snapshot) {
+        const engine = createEngine(snapshot.library.tracks);
+        setXmlPath(snapshot.xmlPath);
+        setLibraryChanges(snapshot.changes);
+        setNewTracks(
+          snapshot.changes && newTracksPlaylist(snapshot.changes, snapshot.library.tracks)
+        );
+        setAppState({ status: "ready", library: snapshot.library, engine, source: sourceType });
+        refreshInBackground(engine, sourceType, snapshot.xmlPath, snapshot.library, snapshot.changes);
+        return;
+      }
+
       if (sourceType === "database") {
         await loadFromDatabase();
       } else {
@@ -119,8 +366,71 @@ function App() {
     }
 
     localStorage.setItem(STORAGE_KEY_SOURCE_TYPE, "database");
-    const engine = new QuizEngine(library.tracks);
-    setAppState({ status: "ready", library, engine, source: "database" });
+    startLibrary(library, "database", null);
+  };
+
+  /**
+   * Start a quiz on a library read straight from its source
+   */
+  const startLibrary = (library: RekordboxLibrary, source: DataSourceType, path: string | null) => {
+    saveLibrarySnapshot({
+      source,
+      xmlPath: path,
+      savedAt: new Date().toISOString(),
+      library,
+      changes: null,
+    });
+    setLibraryChanges(null);
+    setNewTracks(null);
+    setRefreshError(null);
+    const engine = createEngine(library.tracks);
+    setAppState({ status: "ready", library, engine, source });
+  };
+
+  /**
+   * Read the source again without interrupting the quiz. The result is
+   * compared with what's showing, and swapped in if anything changed.
+   */
+  const refreshInBackground = async (
+    engine: QuizEngine,
+    source: DataSourceType,
+    path: string | null,
+    previous: RekordboxLibrary,
+    previousChanges: LibraryChanges | null
+  ) => {
+    setIsRefreshing(true);
+    setRefreshError(null);
+    try {
+      let library: RekordboxLibrary;
+      if (source === "xml") {
+        if (!path) {
+          throw new Error("No XML file to read");
+        }
+        library = await parseRekordboxXml(path);
+      } else {
+        library = await readRekordboxDatabase();
+      }
+      if (library.tracks.size === 0) {
+        throw new Error("No tracks found in the library");
+      }
+
+      const changes = diffLibraries(previous, library);
+      const found = hasChanges(changes);
+      // The last changes found stay the "what's new" pool until a refresh finds more
+      saveLibrarySnapshot({
+        source,
+        xmlPath: path,
+        savedAt: new Date().toISOString(),
+        library,
+        changes: found ? changes : previousChanges,
+      });
+      setRefreshed({ engine, library, changes: found ? changes : null });
+    } catch (err) {
+      console.error("Failed to refresh library:", err);
+      setRefreshError(err instanceof Error ? err.message : "Failed to refresh library");
+    } finally {
+      setIsRefreshing(false);
+    }
   };
 
   const loadFromXml = async () => {
@@ -172,21 +482,15 @@ function App() {
     setAppState({ status: "choosing" });
   };
 
-  const refreshLibrary = async () => {
-    if (appState.status !== "ready") return;
-    const currentSource = appState.source;
-    // Stop playback before refreshing
-    appState.engine.reset();
-    setAppState({ status: "loading" });
-    try {
-      await loadFromSourceType(currentSource);
-    } catch (err) {
-      console.error("Failed to refresh library:", err);
-      setAppState({
-        status: "error",
-        message: err instanceof Error ? err.message : "Failed to refresh library",
-      });
-    }
+  const refreshLibrary = () => {
+    if (appState.status !== "ready" || isRefreshing) return;
+    refreshInBackground(
+      appState.engine,
+      appState.source,
+      xmlPath,
+      appState.library,
+      libraryChanges
+    );
   };
 
   const loadFromPath = async (path: string) => {
@@ -208,8 +512,7 @@ function App() {
       localStorage.setItem(STORAGE_KEY_SOURCE_TYPE, "xml");
       setXmlPath(path);
 
-      const engine = new QuizEngine(library.tracks);
-      setAppState({ status: "ready", library, engine, source: "xml" });
+      startLibrary(library, "xml", path);
     } catch (err) {
       console.error("Failed to parse library:", err);
       setAppState({
@@ -236,15 +539,52 @@ function App() {
   };
 
   const handleSelectPlaylist = useCallback(
-    (playlist: PlaylistNode | null) => {
-      setSelectedPlaylist(playlist);
+    (selection: PlaylistExpression | null) => {
+      setPlaylistSelection(selection);
+      setSelectedFilterId(null);
+      if (appState.status === "ready") {
+        appState.engine.setPlaylistFilter(selection);
+      }
+    },
+    [appState]
+  );
+
+  const handleQuizNew = useCallback(() => {
+    if (newTracks) {
+      handleSelectPlaylist(singlePlaylist(newTracks));
+    }
+    setChangeReport(null);
+  }, [newTracks, handleSelectPlaylist]);
+
+  const handleSelectFilter = useCallback(
+    (filter: SavedFilter) => {
+      setPlaylistSelection(null);
+      setSelectedFilterId(filter.id);
       if (appState.status === "ready") {
-        appState.engine.setPlaylistFilter(playlist);
+        appState.engine.setRuleFilter(filter.rule);
       }
     },
     [appState]
   );
 
+  const handleFilterSaved = useCallback(
+    (filter: SavedFilter) => {
+      setFilterBuilder(null);
+      handleSelectFilter(filter);
+    },
+    [handleSelectFilter]
+  );
+
+  const handleDeleteFilter = useCallback(
+    (filter: SavedFilter) => {
+      deleteFilter(filter.id);
+      if (filter.id === selectedFilterId) {
+        handleSelectPlaylist(null);
+      }
+    },
+    [selectedFilterId, handleSelectPlaylist]
+  );
+
   const handleReveal = useCallback(() => {
     if (appState.status === "ready") {
       appState.engine.reveal();
@@ -257,6 +597,104 @@ function App() {
     }
   }, [appState]);
 
+  const handleChoose = useCallback((trackId: string) => {
+    if (appState.status === "ready") {
+      appState.engine.choose(trackId);
+    }
+  }, [appState]);
+
+  const handleSubmitAnswer = useCallback((answer: TypedAnswer) => {
+    if (appState.status === "ready") {
+      appState.engine.submitAnswer(answer);
+    }
+  }, [appState]);
+
+  const handleSelfGrade = useCallback((grade: Grade, side?: TransitionSide) => {
+    if (appState.status === "ready") {
+      appState.engine.selfGrade(grade, side);
+    }
+  }, [appState]);
+
+  const handleExtendExcerpt = useCallback(() => {
+    if (appState.status === "ready") {
+      appState.engine.extendExcerpt();
+    }
+  }, [appState]);
+
+  const handleHint = useCallback((hint: Hint) => {
+    if (appState.status === "ready") {
+      appState.engine.takeHint(hint);
+    }
+  }, [appState]);
+
+  const handleEndSession = useCallback(() => {
+    if (appState.status === "ready") {
+      appState.engine.reset();
+    }
+  }, [appState]);
+
+  const handleDismissSummary = useCallback(() => {
+    if (appState.status === "ready") {
+      appState.engine.dismissSessionSummary();
+    }
+  }, [appState]);
+
+  const handleChangeAnswerMode = useCallback((mode: AnswerMode) => {
+    localStorage.setItem(STORAGE_KEY_ANSWER_MODE, mode);
+    if (appState.status === "ready") {
+      appState.engine.setAnswerMode(mode);
+    }
+  }, [appState]);
+
+  const handleChangeRoundType = useCallback((type: RoundType) => {
+    localStorage.setItem(STORAGE_KEY_ROUND_TYPE, type);
+    if (appState.status === "ready") {
+      appState.engine.setRoundType(type);
+    }
+  }, [appState]);
+
+  const handleChangeSelectionStrategy = useCallback((strategy: SelectionStrategy) => {
+    localStorage.setItem(STORAGE_KEY_SELECTION_STRATEGY, strategy);
+    if (appState.status === "ready") {
+      appState.engine.setSelectionStrategy(strategy);
+    }
+  }, [appState]);
+
+  const handleChangeExcerptMode = useCallback((mode: ExcerptMode) => {
+    localStorage.setItem(STORAGE_KEY_EXCERPT_MODE, mode);
+    if (appState.status === "ready") {
+      appState.engine.setExcerptMode(mode);
+    }
+  }, [appState]);
+
+  const handleChangeStartPointStrategy = useCallback((strategy: StartPointStrategy) => {
+    localStorage.setItem(STORAGE_KEY_START_POINT, strategy);
+    if (appState.status === "ready") {
+      appState.engine.setStartPointStrategy(strategy);
+    }
+  }, [appState]);
+
+  const handleChangeBeatSnap = useCallback((snap: BeatSnap) => {
+    localStorage.setItem(STORAGE_KEY_BEAT_SNAP, snap);
+    if (appState.status === "ready") {
+      appState.engine.setBeatSnap(snap);
+    }
+  }, [appState]);
+
+  const handleChangeSpeedMode = useCallback((mode: SpeedMode) => {
+    localStorage.setItem(STORAGE_KEY_SPEED_MODE, mode);
+    if (appState.status === "ready") {
+      appState.engine.setSpeedMode(mode);
+    }
+  }, [appState]);
+
+  const handleChangeFilters = useCallback((filters: DifficultyFilters) => {
+    localStorage.setItem(STORAGE_KEY_DIFFICULTY_FILTERS, JSON.stringify(filters));
+    if (appState.status === "ready") {
+      appState.engine.setFilters(filters);
+    }
+  }, [appState]);
+
   const handleTogglePlayback = useCallback(() => {
     if (appState.status === "ready") {
       appState.engine.togglePlayback();
@@ -311,6 +749,11 @@ function App() {
 
   // Render main quiz UI
   const { library, engine, source } = appState;
+  const progressiveStep = quizState?.progressiveStep ?? null;
+  const nextExcerptLength =
+    progressiveStep !== null && !quizState?.isRevealed && progressiveStep < PROGRESSIVE_STEPS.length - 1
+      ? PROGRESSIVE_STEPS[progressiveStep + 1]
+      : null;
 
   return (
     <div className="app">
@@ -321,9 +764,10 @@ function App() {
             <button
               className="header-btn"
               onClick={refreshLibrary}
+              disabled={isRefreshing}
               title="Refresh library"
             >
-              Refresh
+              {isRefreshing ? "Refreshing…" : "Refresh"}
             </button>
             <button
               className="header-btn"
@@ -332,18 +776,66 @@ function App() {
             >
               Change
             </button>
+            <button
+              className="header-btn"
+              onClick={() => setShowSettings(true)}
+              title="Quiz settings"
+            >
+              Settings
+            </button>
           </div>
         </div>
         <div className="library-source">
           {source === "database" ? "Reading from Rekordbox database" : `Reading from XML${xmlPath ? `: ${xmlPath.split('/').pop()}` : ''}`}
+          {fallbackFormats.size > 0 && (
+            <div
+              className="fallback-formats"
+              title="These formats couldn't be played directly and were decoded by the app"
+            >
+              Decoded by the app:{" "}
+              {Array.from(fallbackFormats, ([format, count]) => `${format} (${count})`).join(" · ")}
+            </div>
+          )}
+          {isRefreshing && <div className="library-refresh">Checking for changes…</div>}
+          {refreshError && (
+            <div className="library-refresh library-refresh--error" title={refreshError}>
+              Couldn't refresh, showing the saved library: {refreshError}
+            </div>
+          )}
         </div>
-        <PlaylistBrowser
-          root={library.playlists}
-          selectedPlaylist={selectedPlaylist}
-          onSelectPlaylist={handleSelectPlaylist}
-          totalTracks={engine.getTotalTrackCount()}
-          activeTracks={engine.getActiveTrackCount()}
-        />
+        {changeReport && !filterBuilder && (
+          <ChangeReport
+            changes={changeReport}
+            tracks={library.tracks}
+            onQuizNew={handleQuizNew}
+            onDismiss={() => setChangeReport(null)}
+          />
+        )}
+        {filterBuilder ? (
+          <FilterBuilder
+            key={filterBuilder.filter?.id ?? "new"}
+            tracks={library.tracks}
+            filter={filterBuilder.filter}
+            onSaved={handleFilterSaved}
+            onCancel={() => setFilterBuilder(null)}
+          />
+        ) : (
+          <PlaylistBrowser
+            root={library.playlists}
+            selection={playlistSelection}
+            onChangeSelection={handleSelectPlaylist}
+            newTracks={newTracks}
+            totalTracks={engine.getTotalTrackCount()}
+            activeTracks={engine.getActiveTrackCount()}
+            savedFilters={savedFilters}
+            filterCounts={filterCounts}
+            selectedFilterId={selectedFilterId}
+            onSelectFilter={handleSelectFilter}
+            onNewFilter={() => setFilterBuilder({ filter: null })}
+            onEditFilter={(filter) => setFilterBuilder({ filter })}
+            onDeleteFilter={handleDeleteFilter}
+          />
+        )}
       </aside>
 
       <main className="main">
@@ -353,6 +845,30 @@ function App() {
               {/* Start screen - no track loaded yet */}
               {!quizState.currentTrack && !quizState.isLoading && !quizState.error && (
                 <div className="start-prompt">
+                  {quizState.sessionSummary && (
+                    <SessionSummary
+                      summary={quizState.sessionSummary}
+                      onDismiss={handleDismissSummary}
+                    />
+                  )}
+                  <QuizOptions
+                    answerMode={quizState.answerMode}
+                    roundType={quizState.roundType}
+                    selectionStrategy={quizState.selectionStrategy}
+                    excerptMode={quizState.excerptMode}
+                    startPointStrategy={quizState.startPointStrategy}
+                    beatSnap={quizState.beatSnap}
+                    speedMode={quizState.speedMode}
+                    filters={quizState.filters}
+                    onChangeAnswerMode={handleChangeAnswerMode}
+                    onChangeRoundType={handleChangeRoundType}
+                    onChangeSelectionStrategy={handleChangeSelectionStrategy}
+                    onChangeExcerptMode={handleChangeExcerptMode}
+                    onChangeStartPointStrategy={handleChangeStartPointStrategy}
+                    onChangeBeatSnap={handleChangeBeatSnap}
+                    onChangeSpeedMode={handleChangeSpeedMode}
+                    onChangeFilters={handleChangeFilters}
+                  />
                   <button className="btn btn--primary btn--large" onClick={handleNext}>
                     Start Quiz
                   </button>
@@ -365,22 +881,83 @@ function App() {
               {/* Active quiz - track is loaded */}
               {quizState.currentTrack && (
                 <>
+                  <Scoreboard
+                    session={quizState.session}
+                    filters={
+                      quizState.incomingTrack
+                        ? transitionFilters(quizState.filters)
+                        : quizState.filters
+                    }
+                    onEndSession={handleEndSession}
+                  />
+
+                  {quizState.timer && <SpeedTimer timer={quizState.timer} />}
+
                   <RevealCard
                     track={quizState.currentTrack}
+                    incomingTrack={quizState.incomingTrack}
                     isRevealed={quizState.isRevealed}
+                    answerMode={quizState.answerMode}
+                    choices={quizState.choices}
+                    chosenTrackId={quizState.chosenTrackId}
+                    typedResult={quizState.typedResult}
+                    grade={quizState.grade}
+                    transitionGrades={quizState.transitionGrades}
+                    roundPoints={quizState.roundPoints}
+                    hintsUsed={quizState.hintsUsed.length}
+                    nextExcerptLength={nextExcerptLength}
                     onReveal={handleReveal}
                     onNext={handleNext}
+                    onChoose={handleChoose}
+                    onSubmitAnswer={handleSubmitAnswer}
+                    onSelfGrade={handleSelfGrade}
+                    onExtendExcerpt={handleExtendExcerpt}
                   />
 
+                  {quizState.canUseHints && (
+                    <HintControls hintsUsed={quizState.hintsUsed} onHint={handleHint} />
+                  )}
+
                   <Player
                     playbackState={quizState.playbackState}
                     isLoading={quizState.isLoading}
+                    segments={quizState.progressiveStep !== null ? PROGRESSIVE_STEPS : undefined}
+                    waveform={quizState.waveform}
+                    reversed={quizState.filters.reversed}
                     onTogglePlayback={handleTogglePlayback}
                     onSeek={handleSeek}
                   />
 
+                  {quizState.isRevealed && quizState.waveform && (
+                    <TrackOverview
+                      waveform={quizState.waveform}
+                      playbackState={quizState.playbackState}
+                      reversed={quizState.filters.reversed}
+                      onSeek={handleSeek}
+                    />
+                  )}
+
                   <p className="keyboard-hint keyboard-hint--bottom">
                     <kbd>Space</kbd> play/pause
+                    {quizState.choices && !quizState.isRevealed && (
+                      <> · <kbd>1</kbd>–<kbd>4</kbd> choose</>
+                    )}
+                    {nextExcerptLength !== null && (
+                      <> · <kbd>→</kbd> more audio</>
+                    )}
+                    {quizState.canUseHints && (
+                      <> · <kbd>S</kbd> <kbd>E</kbd> <kbd>I</kbd> hints</>
+                    )}
+                    {quizState.answerMode === "typed" && !quizState.isRevealed && (
+                      <> · <kbd>Esc</kbd> leave answer field</>
+                    )}
+                    {quizState.answerMode === "reveal" && quizState.isRevealed && quizState.grade === null && (
+                      quizState.incomingTrack ? (
+                        <> · <kbd>1</kbd>–<kbd>3</kbd> / <kbd>4</kbd>–<kbd>6</kbd> grade each track</>
+                      ) : (
+                        <> · <kbd>1</kbd>–<kbd>3</kbd> grade</>
+                      )
+                    )}
                     {quizState.isRevealed ? (
                       <> · <kbd>Enter</kbd> next track</>
                     ) : (
@@ -411,6 +988,8 @@ function App() {
           )}
         </div>
       </main>
+
+      {showSettings && <SettingsPanel onClose={() => setShowSettings(false)} />}
     </div>
   );
 }
@@ -0,0 +1,108 @@
+import { Track } from "../lib/rekordbox-parser";
+import { LibraryChanges } from "../lib/library-diff";
+import "./ChangeReport.css";
+
+interface ChangeReportProps {
+  changes: LibraryChanges;
+  tracks: Map<string, Track>;
+  onQuizNew: () => void;
+  onDismiss: () => void;
+}
+
+// Longer lists end with "and N more"
+const MAX_LISTED = 20;
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+function fileName(location: string): string {
+  return location.split(/[/\\]/).pop() ?? location;
+}
+
+interface ChangeListProps {
+  title: string;
+  items: string[];
+}
+
+function ChangeList({ title, items }: ChangeListProps) {
+  if (items.length === 0) return null;
+  return (
+    <details className="change-list">
+      <summary>
+        {title} ({items.length})
+      </summary>
+      <ul>
+        {items.slice(0, MAX_LISTED).map((item, index) => (
+          <li key={index}>{item}</li>
+        ))}
+        {items.length > MAX_LISTED && <li>and {items.length - MAX_LISTED} more</li>}
+      </ul>
+    </details>
+  );
+}
+
+/**
+ * What a background refresh found, shown until dismissed
+ */
+export function ChangeReport({ changes, tracks, onQuizNew, onDismiss }: ChangeReportProps) {
+  const describe = (track: { name: string; artist: string }) =>
+    track.artist ? `${track.artist} – ${track.name}` : track.name;
+
+  const added = changes.added
+    .map((id) => tracks.get(id))
+    .filter((track): track is Track => track !== undefined);
+  const playlistCount =
+    changes.playlistsAdded.length +
+    changes.playlistsRemoved.length +
+    changes.playlistsChanged.length;
+
+  const summary = [
+    changes.added.length > 0 && `${changes.added.length} added`,
+    changes.removed.length > 0 && `${changes.removed.length} removed`,
+    changes.moved.length > 0 && `${changes.moved.length} moved`,
+    playlistCount > 0 && `${plural(playlistCount, "playlist")} changed`,
+  ].filter(Boolean);
+
+  return (
+    <div className="change-report">
+      <div className="change-report-header">
+        <strong>Library updated</strong>
+        <button className="change-report-dismiss" onClick={onDismiss} aria-label="Dismiss">
+          ×
+        </button>
+      </div>
+      <p className="change-report-summary">{summary.join(" · ")}</p>
+
+      <ChangeList title="Added" items={added.map(describe)} />
+      <ChangeList title="Removed" items={changes.removed.map(describe)} />
+      <ChangeList
+        title="Moved"
+        items={changes.moved.map((move) => {
+          const track = tracks.get(move.id);
+          return `${track ? describe(track) : fileName(move.from)} → ${move.to}`;
+        })}
+      />
+      <ChangeList
+        title="Playlists"
+        items={[
+          ...changes.playlistsAdded.map((path) => `${path} (new)`),
+          ...changes.playlistsRemoved.map((path) => `${path} (deleted)`),
+          ...changes.playlistsChanged.map((change) =>
+            [
+              change.path,
+              change.added > 0 ? ` +${change.added}` : "",
+              change.removed > 0 ? ` −${change.removed}` : "",
+            ].join("")
+          ),
+        ]}
+      />
+
+      {added.length > 0 && (
+        <button className="btn btn--primary change-report-quiz" onClick={onQuizNew}>
+          Quiz what's new
+        </button>
+      )}
+    </div>
+  );
+}
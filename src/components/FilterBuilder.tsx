@@ -0,0 +1,382 @@
+import { useMemo, useState } from "react";
+import { Track, TrackColour } from "../lib/rekordbox-parser";
+import {
+  DATE_OPERATORS,
+  DateField,
+  DateOperator,
+  LIST_OPERATORS,
+  ListOperator,
+  NUMBER_OPERATORS,
+  NumberField,
+  NumberOperator,
+  RECENT_OPERATORS,
+  RULE_FIELDS,
+  RecentOperator,
+  RuleField,
+  RuleGroup,
+  TEXT_OPERATORS,
+  TextField,
+  TextOperator,
+  TimeUnit,
+  TrackRule,
+  findMatchingTracks,
+} from "../lib/track-rules";
+import { SavedFilter, saveFilter } from "../lib/saved-filters";
+import "./FilterBuilder.css";
+
+interface FilterBuilderProps {
+  tracks: Map<string, Track>;
+  filter: SavedFilter | null; // The filter being edited, or null for a new one
+  onSaved: (filter: SavedFilter) => void;
+  onCancel: () => void;
+}
+
+type ConditionOperator =
+  | TextOperator
+  | ListOperator
+  | NumberOperator
+  | DateOperator
+  | RecentOperator;
+
+/**
+ * A condition as it's being edited: values stay text until the filter is saved
+ */
+interface ConditionDraft {
+  field: RuleField;
+  operator: ConditionOperator;
+  value: string;
+  to: string; // Upper bound for "between"
+  unit: TimeUnit; // For "in the last"
+}
+
+const TEXT_OPERATOR_LABELS: Record<TextOperator | ListOperator, string> = {
+  is: "is",
+  "is-not": "is not",
+  contains: "contains",
+  "not-contains": "doesn't contain",
+  "starts-with": "starts with",
+  "ends-with": "ends with",
+  in: "is one of",
+  "not-in": "is none of",
+};
+
+const NUMBER_OPERATOR_LABELS: Record<NumberOperator, string> = {
+  is: "is",
+  "is-not": "is not",
+  "at-least": "is at least",
+  "at-most": "is at most",
+  greater: "is more than",
+  less: "is less than",
+  between: "is between",
+};
+
+const DATE_OPERATOR_LABELS: Record<DateOperator | RecentOperator, string> = {
+  "in-last": "in the last",
+  "not-in-last": "not in the last",
+  after: "after",
+  before: "before",
+  is: "on",
+  "is-not": "not on",
+  between: "between",
+};
+
+const OPERATORS: Record<"text" | "number" | "date", [ConditionOperator, string][]> = {
+  text: [...TEXT_OPERATORS, ...LIST_OPERATORS].map((op) => [op, TEXT_OPERATOR_LABELS[op]]),
+  number: NUMBER_OPERATORS.map((op) => [op, NUMBER_OPERATOR_LABELS[op]]),
+  date: [...RECENT_OPERATORS, ...DATE_OPERATORS].map((op) => [op, DATE_OPERATOR_LABELS[op]]),
+};
+
+const TIME_UNITS: [TimeUnit, string][] = [
+  ["day", "days"],
+  ["week", "weeks"],
+  ["month", "months"],
+  ["year", "years"],
+];
+
+// Offered as suggestions for the colour field
+const COLOURS: TrackColour[] = ["pink", "red", "orange", "yellow", "green", "aqua", "blue", "purple"];
+
+// Separates the values of "is one of", e.g. "8A/9A"
+const LIST_SEPARATOR = /[/,]/;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function newCondition(field: RuleField = "genre"): ConditionDraft {
+  return {
+    field,
+    operator: OPERATORS[RULE_FIELDS[field].type][0][0],
+    value: "",
+    to: "",
+    unit: "month",
+  };
+}
+
+/**
+ * Turn a draft into a rule, or null if it isn't filled in properly yet
+ */
+function toRule(draft: ConditionDraft): TrackRule | null {
+  const { field, operator, value, to, unit } = draft;
+  const text = value.trim();
+
+  switch (RULE_FIELDS[field].type) {
+    case "text": {
+      const textField = field as TextField;
+      if (operator === "in" || operator === "not-in") {
+        const values = text.split(LIST_SEPARATOR).map((v) => v.trim()).filter(Boolean);
+        return values.length > 0 ? { type: "list", field: textField, operator, values } : null;
+      }
+      if (!text) return null;
+      return { type: "text", field: textField, operator: operator as TextOperator, value: text };
+    }
+    case "number": {
+      const numberField = field as NumberField;
+      const number = Number(text);
+      const upper = Number(to.trim());
+      if (!text || !Number.isFinite(number)) return null;
+      if (operator === "between" && (!to.trim() || !Number.isFinite(upper))) return null;
+      return {
+        type: "number",
+        field: numberField,
+        operator: operator as NumberOperator,
+        value: number,
+        to: operator === "between" ? upper : undefined,
+      };
+    }
+    case "date": {
+      const dateField = field as DateField;
+      if (operator === "in-last" || operator === "not-in-last") {
+        const amount = Number(text);
+        if (!text || !(amount > 0)) return null;
+        return { type: "recent", field: dateField, operator, amount, unit };
+      }
+      if (!DATE_PATTERN.test(text)) return null;
+      if (operator === "between" && !DATE_PATTERN.test(to)) return null;
+      return {
+        type: "date",
+        field: dateField,
+        operator: operator as DateOperator,
+        value: text,
+        to: operator === "between" ? to : undefined,
+      };
+    }
+  }
+}
+
+/**
+ * Turn a saved rule back into a draft for editing. Nested groups can't be
+ * built here, so they aren't shown.
+ */
+function toDraft(rule: TrackRule): ConditionDraft | null {
+  const draft = newCondition(rule.type === "group" ? undefined : rule.field);
+  switch (rule.type) {
+    case "text":
+      return { ...draft, operator: rule.operator, value: rule.value };
+    case "list":
+      return { ...draft, operator: rule.operator, value: rule.values.join("/") };
+    case "number":
+    case "date":
+      return {
+        ...draft,
+        operator: rule.operator,
+        value: String(rule.value),
+        to: rule.to !== undefined ? String(rule.to) : "",
+      };
+    case "recent":
+      return { ...draft, operator: rule.operator, value: String(rule.amount), unit: rule.unit };
+    case "group":
+      return null;
+  }
+}
+
+interface ConditionRowProps {
+  draft: ConditionDraft;
+  onChange: (draft: ConditionDraft) => void;
+  onRemove: () => void;
+}
+
+function ConditionRow({ draft, onChange, onRemove }: ConditionRowProps) {
+  const type = RULE_FIELDS[draft.field].type;
+  const isRecent = draft.operator === "in-last" || draft.operator === "not-in-last";
+  const inputType = type === "date" && !isRecent ? "date" : type === "text" ? "text" : "number";
+
+  const handleFieldChange = (field: RuleField) => {
+    // Keep the operator if the new field has it, otherwise start over
+    const operators = OPERATORS[RULE_FIELDS[field].type];
+    onChange(
+      operators.some(([operator]) => operator === draft.operator)
+        ? { ...draft, field }
+        : newCondition(field)
+    );
+  };
+
+  return (
+    <div className="filter-condition">
+      <div className="filter-condition-line">
+        <select
+          value={draft.field}
+          onChange={(e) => handleFieldChange(e.target.value as RuleField)}
+        >
+          {(Object.keys(RULE_FIELDS) as RuleField[]).map((field) => (
+            <option key={field} value={field}>
+              {RULE_FIELDS[field].label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={draft.operator}
+          onChange={(e) => onChange({ ...draft, operator: e.target.value as ConditionOperator })}
+        >
+          {OPERATORS[type].map(([operator, label]) => (
+            <option key={operator} value={operator}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          className="filter-remove"
+          onClick={onRemove}
+          aria-label="Remove condition"
+        >
+          ×
+        </button>
+      </div>
+      <div className="filter-condition-line">
+        <input
+          type={inputType}
+          value={draft.value}
+          list={draft.field === "colour" ? "filter-colours" : undefined}
+          placeholder={draft.operator === "in" || draft.operator === "not-in" ? "e.g. 8A/9A" : ""}
+          onChange={(e) => onChange({ ...draft, value: e.target.value })}
+        />
+        {draft.operator === "between" && (
+          <>
+            <span className="filter-and">and</span>
+            <input
+              type={inputType}
+              value={draft.to}
+              onChange={(e) => onChange({ ...draft, to: e.target.value })}
+            />
+          </>
+        )}
+        {isRecent && (
+          <select
+            value={draft.unit}
+            onChange={(e) => onChange({ ...draft, unit: e.target.value as TimeUnit })}
+          >
+            {TIME_UNITS.map(([unit, label]) => (
+              <option key={unit} value={unit}>
+                {label}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Build a quiz pool from track metadata, and save it by name
+ */
+export function FilterBuilder({ tracks, filter, onSaved, onCancel }: FilterBuilderProps) {
+  const [name, setName] = useState(filter?.name ?? "");
+  const [match, setMatch] = useState<RuleGroup["match"]>(filter?.rule.match ?? "all");
+  const [drafts, setDrafts] = useState<ConditionDraft[]>(() => {
+    const saved = filter?.rule.rules.map(toDraft).filter((d): d is ConditionDraft => d !== null);
+    return saved && saved.length > 0 ? saved : [newCondition()];
+  });
+  const [error, setError] = useState<string | null>(null);
+
+  // Null until every condition is filled in
+  const rule = useMemo((): RuleGroup | null => {
+    const rules = drafts.map(toRule);
+    if (rules.length === 0 || rules.some((r) => r === null)) return null;
+    return { type: "group", match, rules: rules as TrackRule[] };
+  }, [drafts, match]);
+
+  const matchCount = useMemo(
+    () => (rule ? findMatchingTracks(rule, tracks.values()).length : null),
+    [rule, tracks]
+  );
+
+  const updateDraft = (index: number, draft: ConditionDraft) => {
+    setDrafts((current) => current.map((d, i) => (i === index ? draft : d)));
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      setError("Give the filter a name");
+      return;
+    }
+    if (!rule) {
+      setError("Fill in every condition");
+      return;
+    }
+    onSaved(saveFilter({ id: filter?.id, name: name.trim(), rule }));
+  };
+
+  return (
+    <form className="filter-builder" onSubmit={handleSave}>
+      <div className="filter-builder-header">
+        <h3>{filter ? "Edit filter" : "New filter"}</h3>
+        <span className="filter-match-count">
+          {matchCount === null ? "—" : `${matchCount} track${matchCount === 1 ? "" : "s"}`}
+        </span>
+      </div>
+
+      <input
+        className="filter-name"
+        type="text"
+        placeholder="Filter name"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+      />
+
+      <label className="filter-match">
+        Match
+        <select value={match} onChange={(e) => setMatch(e.target.value as RuleGroup["match"])}>
+          <option value="all">all</option>
+          <option value="any">any</option>
+        </select>
+        of these conditions
+      </label>
+
+      <div className="filter-conditions">
+        {drafts.map((draft, index) => (
+          <ConditionRow
+            key={index}
+            draft={draft}
+            onChange={(updated) => updateDraft(index, updated)}
+            onRemove={() => setDrafts((current) => current.filter((_, i) => i !== index))}
+          />
+        ))}
+      </div>
+      <datalist id="filter-colours">
+        {COLOURS.map((colour) => (
+          <option key={colour} value={colour} />
+        ))}
+      </datalist>
+
+      <button
+        type="button"
+        className="filter-add"
+        onClick={() => setDrafts((current) => [...current, newCondition()])}
+      >
+        + Add condition
+      </button>
+
+      {error && <p className="filter-error">{error}</p>}
+
+      <div className="filter-actions">
+        <button type="button" className="btn btn--secondary" onClick={onCancel}>
+          Cancel
+        </button>
+        <button type="submit" className="btn btn--primary">
+          Save
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,42 @@
+import { Hint, HINT_LABELS } from "../lib/hints";
+import { hintMultiplier } from "../lib/scoring";
+import "./HintControls.css";
+
+interface HintControlsProps {
+  hintsUsed: Hint[];
+  onHint: (hint: Hint) => void;
+}
+
+// Keyboard shortcut for each hint, in display order
+export const HINT_KEYS: Record<Hint, string> = {
+  "other-section": "S",
+  extend: "E",
+  intro: "I",
+};
+
+const HINTS = Object.keys(HINT_KEYS) as Hint[];
+
+export function HintControls({ hintsUsed, onHint }: HintControlsProps) {
+  const nextMultiplier = hintMultiplier(hintsUsed.length + 1);
+
+  return (
+    <div className="hint-controls">
+      <span className="hint-label">Hear more</span>
+      {HINTS.map((hint) => (
+        <button
+          key={hint}
+          className="hint-btn"
+          onClick={() => onHint(hint)}
+          title={`Points for this track drop to ×${nextMultiplier.toFixed(2)}`}
+        >
+          <kbd>{HINT_KEYS[hint]}</kbd> {HINT_LABELS[hint]}
+        </button>
+      ))}
+      {hintsUsed.length > 0 && (
+        <span className="hint-count">
+          {hintsUsed.length} used · ×{hintMultiplier(hintsUsed.length).toFixed(2)}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -1,38 +1,79 @@
-import { useRef, useCallback } from "react";
-import { PlaybackState } from "../lib/audio-player";
+import { useRef, useCallback, useEffect, useMemo, useState } from "react";
+import { PlaybackState, getAudioPlayer } from "../lib/audio-player";
+import { WaveformData, getExcerptSection, getWaveformPeaks } from "../lib/waveform";
+import { Waveform } from "./Waveform";
 import "./Player.css";
 
 interface PlayerProps {
   playbackState: PlaybackState;
   isLoading: boolean;
+  segments?: number[]; // Progressive excerpt lengths; the bar spans the last one
+  waveform: WaveformData | null; // Shown instead of the progress bar once decoded
+  reversed: boolean;
   onTogglePlayback: () => void;
   onSeek: (time: number) => void;
 }
 
-function formatTime(seconds: number): string {
+// Bars drawn in the excerpt waveform
+const EXCERPT_BARS = 160;
+
+export function formatTime(seconds: number): string {
   const mins = Math.floor(seconds / 60);
   const secs = Math.floor(seconds % 60);
   return `${mins}:${secs.toString().padStart(2, "0")}`;
 }
 
+/**
+ * The live playing position. Only components that call this re-render on
+ * every frame; the rest of the app sees playback state changes only.
+ */
+export function usePlaybackTime(): number {
+  const [currentTime, setCurrentTime] = useState(() => getAudioPlayer().getState().currentTime);
+  useEffect(() => getAudioPlayer().subscribeProgress(setCurrentTime), []);
+  return currentTime;
+}
+
 export function Player({
   playbackState,
   isLoading,
+  segments,
+  waveform,
+  reversed,
   onTogglePlayback,
   onSeek,
 }: PlayerProps) {
-  const { isPlaying, currentTime, maxPlayTime } = playbackState;
-  const progress = maxPlayTime > 0 ? (currentTime / maxPlayTime) * 100 : 0;
+  const { isPlaying, maxPlayTime, startOffset, usesFallback, outputDeviceLost } = playbackState;
+  const currentTime = usePlaybackTime();
+  // In progressive mode the bar covers the full excerpt, not just the unlocked part
+  const barLength = segments ? segments[segments.length - 1] : maxPlayTime;
+  const progress = barLength > 0 ? (currentTime / barLength) * 100 : 0;
+  const unlocked = barLength > 0 ? Math.min(100, (maxPlayTime / barLength) * 100) : 0;
   const progressBarRef = useRef<HTMLDivElement>(null);
+
+  const excerptPeaks = useMemo(() => {
+    if (!waveform) return null;
+    const section = getExcerptSection(waveform, startOffset, barLength, reversed);
+    const peaks = getWaveformPeaks(waveform, section.start, section.end, EXCERPT_BARS);
+    if (reversed) {
+      // Played from the end of the section backwards
+      peaks.min.reverse();
+      peaks.max.reverse();
+    }
+    return peaks;
+  }, [waveform, startOffset, barLength, reversed]);
+
+  const handleWaveformSeek = useCallback((fraction: number) => {
+    onSeek(Math.min(fraction * barLength, maxPlayTime));
+  }, [barLength, maxPlayTime, onSeek]);
   const isDraggingRef = useRef(false);
 
   const calculateTimeFromEvent = useCallback((clientX: number): number => {
-    if (!progressBarRef.current || maxPlayTime <= 0) return 0;
+    if (!progressBarRef.current || barLength <= 0) return 0;
     const rect = progressBarRef.current.getBoundingClientRect();
     const x = clientX - rect.left;
     const percentage = Math.max(0, Math.min(1, x / rect.width));
-    return percentage * maxPlayTime;
-  }, [maxPlayTime]);
+    return Math.min(percentage * barLength, maxPlayTime);
+  }, [barLength, maxPlayTime]);
 
   const handleProgressClick = useCallback((e: React.MouseEvent) => {
     const time = calculateTimeFromEvent(e.clientX);
@@ -84,19 +125,55 @@ export function Player({
       </button>
 
       <div className="progress-container">
-        <div
-          className="progress-bar"
-          ref={progressBarRef}
-          onClick={handleProgressClick}
-          onMouseDown={handleMouseDown}
-        >
-          <div className="progress-fill" style={{ width: `${progress}%` }} />
-          <div className="progress-thumb" style={{ left: `${progress}%` }} />
-        </div>
+        {excerptPeaks ? (
+          <Waveform
+            peaks={excerptPeaks}
+            progress={progress / 100}
+            available={unlocked / 100}
+            markers={segments?.slice(0, -1).map((length) => length / barLength)}
+            onSeek={handleWaveformSeek}
+          />
+        ) : (
+          <div
+            className="progress-bar"
+            ref={progressBarRef}
+            onClick={handleProgressClick}
+            onMouseDown={handleMouseDown}
+          >
+            {segments && (
+              <>
+                <div className="progress-unlocked" style={{ width: `${unlocked}%` }} />
+                {segments.slice(0, -1).map((length) => (
+                  <div
+                    key={length}
+                    className={`progress-segment ${length < maxPlayTime ? "progress-segment--unlocked" : ""}`}
+                    style={{ left: `${(length / barLength) * 100}%` }}
+                  />
+                ))}
+              </>
+            )}
+            <div className="progress-fill" style={{ width: `${progress}%` }} />
+            <div className="progress-thumb" style={{ left: `${progress}%` }} />
+          </div>
+        )}
         <div className="time-display">
           <span>{formatTime(currentTime)}</span>
+          {usesFallback && (
+            <span
+              className="decoded-badge"
+              title="This file's format couldn't be played directly, so the app decoded it"
+            >
+              Decoded by the app
+            </span>
+          )}
           <span>{formatTime(maxPlayTime)}</span>
         </div>
+        {outputDeviceLost && (
+          <p className="output-warning">
+            Your chosen output device isn't connected, so the quiz is playing through the
+            system default.
+          </p>
+        )}
       </div>
     </div>
   );
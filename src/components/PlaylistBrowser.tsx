@@ -1,63 +1,114 @@
 import { useState } from "react";
 import { PlaylistNode } from "../lib/rekordbox-parser";
+import { SavedFilter } from "../lib/saved-filters";
+import {
+  PlaylistCombine,
+  PlaylistExpression,
+  PlaylistRole,
+  getPlaylistRole,
+  singlePlaylist,
+  togglePlaylist,
+} from "../lib/playlist-sets";
 import "./PlaylistBrowser.css";
 
 interface PlaylistBrowserProps {
   root: PlaylistNode;
-  selectedPlaylist: PlaylistNode | null;
-  onSelectPlaylist: (playlist: PlaylistNode | null) => void;
+  selection: PlaylistExpression | null; // Null for all tracks
+  onChangeSelection: (selection: PlaylistExpression | null) => void;
+  newTracks: PlaylistNode | null; // Tracks the last refresh added
   totalTracks: number;
   activeTracks: number;
+  savedFilters: SavedFilter[];
+  filterCounts: Map<string, number>; // Matching tracks per saved filter
+  selectedFilterId: string | null;
+  onSelectFilter: (filter: SavedFilter) => void;
+  onNewFilter: () => void;
+  onEditFilter: (filter: SavedFilter) => void;
+  onDeleteFilter: (filter: SavedFilter) => void;
 }
 
 interface PlaylistItemProps {
   node: PlaylistNode;
   depth: number;
-  selectedPlaylist: PlaylistNode | null;
+  selection: PlaylistExpression | null;
   onSelect: (playlist: PlaylistNode) => void;
+  onToggle: (node: PlaylistNode, role: PlaylistRole) => void;
 }
 
 function PlaylistItem({
   node,
   depth,
-  selectedPlaylist,
+  selection,
   onSelect,
+  onToggle,
 }: PlaylistItemProps) {
   const [isExpanded, setIsExpanded] = useState(depth < 1);
-  const isSelected = selectedPlaylist === node;
+  const role = getPlaylistRole(selection, node);
   const hasChildren = node.children.length > 0;
+  // Smart playlists whose rules the app can't evaluate have no tracks
+  const isUnreadable = node.isSmartPlaylist && !node.smartRule;
 
-  const handleClick = () => {
-    if (node.type === "folder" && hasChildren) {
+  // Cmd/Ctrl-click adds to the selection, Alt-click leaves out
+  const handleClick = (e: React.MouseEvent) => {
+    if (e.altKey) {
+      onToggle(node, "exclude");
+    } else if (e.metaKey || e.ctrlKey) {
+      onToggle(node, "include");
+    } else if (node.type === "folder" && hasChildren) {
       setIsExpanded(!isExpanded);
     } else if (node.type === "playlist") {
       onSelect(node);
     }
   };
 
+  const rowClass = [
+    "playlist-row",
+    role === "include" ? "playlist-row--selected" : "",
+    role === "exclude" ? "playlist-row--excluded" : "",
+  ].join(" ");
+
   return (
     <div className="playlist-item">
-      <button
-        className={`playlist-row ${isSelected ? "playlist-row--selected" : ""}`}
-        style={{ paddingLeft: `${depth * 1.25 + 0.75}rem` }}
-        onClick={handleClick}
-      >
-        {node.type === "folder" ? (
-          <span className={`folder-icon ${isExpanded ? "folder-icon--open" : ""}`}>
-            {hasChildren ? (isExpanded ? "▼" : "▶") : "○"}
-          </span>
-        ) : (
-          <span className="playlist-icon">{node.isSmartPlaylist ? "⚡" : "♪"}</span>
-        )}
-        <span className={`playlist-name ${node.isSmartPlaylist ? "playlist-name--smart" : ""}`}>
-          {node.name}
-        </span>
-        {node.type === "playlist" && (
-          <span className="playlist-count">
-            {node.isSmartPlaylist ? "—" : node.trackIds.length}
+      <div className="playlist-entry">
+        <button
+          className={rowClass}
+          style={{ paddingLeft: `${depth * 1.25 + 0.75}rem` }}
+          onClick={handleClick}
+          title={isUnreadable ? "This smart playlist uses rules the app can't read yet" : undefined}
+        >
+          {node.type === "folder" ? (
+            <span className={`folder-icon ${isExpanded ? "folder-icon--open" : ""}`}>
+              {hasChildren ? (isExpanded ? "▼" : "▶") : "○"}
+            </span>
+          ) : (
+            <span className="playlist-icon">{node.isSmartPlaylist ? "⚡" : "♪"}</span>
+          )}
+          <span className={`playlist-name ${node.isSmartPlaylist ? "playlist-name--smart" : ""}`}>
+            {node.name}
           </span>
-        )}
-      </button>
+          {node.type === "playlist" && (
+            <span className="playlist-count">
+              {isUnreadable ? "—" : node.trackIds.length}
+            </span>
+          )}
+        </button>
+        <button
+          className={`playlist-set-action ${role === "include" ? "playlist-set-action--on" : ""}`}
+          onClick={() => onToggle(node, "include")}
+          aria-label={`Include ${node.name}`}
+          title="Include (Cmd/Ctrl-click)"
+        >
+          +
+        </button>
+        <button
+          className={`playlist-set-action ${role === "exclude" ? "playlist-set-action--on" : ""}`}
+          onClick={() => onToggle(node, "exclude")}
+          aria-label={`Exclude ${node.name}`}
+          title="Exclude (Alt-click)"
+        >
+          −
+        </button>
+      </div>
 
       {node.type === "folder" && isExpanded && hasChildren && (
         <div className="playlist-children">
@@ -66,8 +117,9 @@ function PlaylistItem({
               key={`${child.name}-${index}`}
               node={child}
               depth={depth + 1}
-              selectedPlaylist={selectedPlaylist}
+              selection={selection}
               onSelect={onSelect}
+              onToggle={onToggle}
             />
           ))}
         </div>
@@ -76,41 +128,153 @@ function PlaylistItem({
   );
 }
 
+interface SelectionSummaryProps {
+  selection: PlaylistExpression;
+  onChangeCombine: (combine: PlaylistCombine) => void;
+  onClear: () => void;
+}
+
+/**
+ * Describes a combined selection, e.g. "All of 2 playlists, minus 1"
+ */
+function SelectionSummary({ selection, onChangeCombine, onClear }: SelectionSummaryProps) {
+  const { include, exclude, combine } = selection;
+
+  return (
+    <div className="playlist-selection">
+      {include.length > 1 ? (
+        <select
+          value={combine}
+          onChange={(e) => onChangeCombine(e.target.value as PlaylistCombine)}
+          aria-label="Combine included playlists"
+        >
+          <option value="union">Any of</option>
+          <option value="intersection">All of</option>
+        </select>
+      ) : null}
+      <span className="playlist-selection-text">
+        {include.length === 0
+          ? "All tracks"
+          : `${include.length} playlist${include.length === 1 ? "" : "s"}`}
+        {exclude.length > 0 && `, minus ${exclude.length}`}
+      </span>
+      <button className="playlist-section-action" onClick={onClear}>
+        Clear
+      </button>
+    </div>
+  );
+}
+
 export function PlaylistBrowser({
   root,
-  selectedPlaylist,
-  onSelectPlaylist,
+  selection,
+  onChangeSelection,
+  newTracks,
   totalTracks,
   activeTracks,
+  savedFilters,
+  filterCounts,
+  selectedFilterId,
+  onSelectFilter,
+  onNewFilter,
+  onEditFilter,
+  onDeleteFilter,
 }: PlaylistBrowserProps) {
+  const handleToggle = (node: PlaylistNode, role: PlaylistRole) => {
+    onChangeSelection(togglePlaylist(selection, node, role));
+  };
+
+  // Only worth a summary once more than one playlist is involved
+  const isCombined =
+    selection !== null && selection.include.length + selection.exclude.length > 1;
+
   return (
     <div className="playlist-browser">
       <div className="playlist-header">
-        <h3>Playlists</h3>
+        <h3>Library</h3>
         <span className="track-count">
           {activeTracks} / {totalTracks} tracks
         </span>
       </div>
 
+      {isCombined && (
+        <SelectionSummary
+          selection={selection}
+          onChangeCombine={(combine) => onChangeSelection({ ...selection, combine })}
+          onClear={() => onChangeSelection(null)}
+        />
+      )}
+
       <div className="playlist-list">
         <button
           className={`playlist-row playlist-row--all ${
-            selectedPlaylist === null ? "playlist-row--selected" : ""
+            selection === null && selectedFilterId === null ? "playlist-row--selected" : ""
           }`}
-          onClick={() => onSelectPlaylist(null)}
+          onClick={() => onChangeSelection(null)}
         >
           <span className="playlist-icon">◉</span>
           <span className="playlist-name">All Tracks</span>
           <span className="playlist-count">{totalTracks}</span>
         </button>
+        {newTracks && newTracks.trackIds.length > 0 && (
+          <PlaylistItem
+            node={newTracks}
+            depth={0}
+            selection={selection}
+            onSelect={(playlist) => onChangeSelection(singlePlaylist(playlist))}
+            onToggle={handleToggle}
+          />
+        )}
+
+        <div className="playlist-section">
+          <span>Filters</span>
+          <button className="playlist-section-action" onClick={onNewFilter}>
+            + New
+          </button>
+        </div>
+        {savedFilters.map((filter) => (
+          <div key={filter.id} className="saved-filter">
+            <button
+              className={`playlist-row ${
+                selectedFilterId === filter.id ? "playlist-row--selected" : ""
+              }`}
+              onClick={() => onSelectFilter(filter)}
+            >
+              <span className="playlist-icon">⧩</span>
+              <span className="playlist-name">{filter.name}</span>
+              <span className="playlist-count">{filterCounts.get(filter.id) ?? 0}</span>
+            </button>
+            <button
+              className="saved-filter-action"
+              onClick={() => onEditFilter(filter)}
+              aria-label={`Edit ${filter.name}`}
+              title="Edit"
+            >
+              ✎
+            </button>
+            <button
+              className="saved-filter-action"
+              onClick={() => onDeleteFilter(filter)}
+              aria-label={`Delete ${filter.name}`}
+              title="Delete"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+
+        <div className="playlist-section">
+          <span>Playlists</span>
+        </div>
 
         {root.children.map((child, index) => (
           <PlaylistItem
             key={`${child.name}-${index}`}
             node={child}
             depth={0}
-            selectedPlaylist={selectedPlaylist}
-            onSelect={onSelectPlaylist}
+            selection={selection}
+            onSelect={(playlist) => onChangeSelection(singlePlaylist(playlist))}
+            onToggle={handleToggle}
           />
         ))}
       </div>
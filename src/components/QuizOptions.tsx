@@ -0,0 +1,273 @@
+import { AnswerMode, ExcerptMode, RoundType } from "../lib/quiz-engine";
+import { SelectionStrategy } from "../lib/scheduler";
+import { StartPointStrategy } from "../lib/excerpt";
+import { BeatSnap } from "../lib/beat-grid";
+import { SpeedMode } from "../lib/speed-round";
+import { QuizSettings, getSettings } from "../lib/settings";
+import { DifficultyFilters, PITCH_SHIFT_PERCENT, PitchShift, ToneFilter } from "../lib/difficulty";
+import "./QuizOptions.css";
+
+interface QuizOptionsProps {
+  answerMode: AnswerMode;
+  roundType: RoundType;
+  selectionStrategy: SelectionStrategy;
+  excerptMode: ExcerptMode;
+  startPointStrategy: StartPointStrategy;
+  beatSnap: BeatSnap;
+  speedMode: SpeedMode;
+  filters: DifficultyFilters;
+  onChangeAnswerMode: (mode: AnswerMode) => void;
+  onChangeRoundType: (type: RoundType) => void;
+  onChangeSelectionStrategy: (strategy: SelectionStrategy) => void;
+  onChangeExcerptMode: (mode: ExcerptMode) => void;
+  onChangeStartPointStrategy: (strategy: StartPointStrategy) => void;
+  onChangeBeatSnap: (snap: BeatSnap) => void;
+  onChangeSpeedMode: (mode: SpeedMode) => void;
+  onChangeFilters: (filters: DifficultyFilters) => void;
+}
+
+type Toggle = "off" | "on";
+
+interface OptionChoice<T extends string> {
+  value: T;
+  label: string;
+  description: string;
+}
+
+interface OptionGroupProps<T extends string> {
+  label: string;
+  choices: OptionChoice<T>[];
+  value: T;
+  onChange: (value: T) => void;
+}
+
+function OptionGroup<T extends string>({ label, choices, value, onChange }: OptionGroupProps<T>) {
+  return (
+    <div className="option-group">
+      <span className="option-label">{label}</span>
+      <div className="segmented">
+        {choices.map((choice) => (
+          <button
+            key={choice.value}
+            className={`segmented-btn ${value === choice.value ? "segmented-btn--active" : ""}`}
+            onClick={() => onChange(choice.value)}
+            title={choice.description}
+          >
+            {choice.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+const ANSWER_MODES: OptionChoice<AnswerMode>[] = [
+  { value: "reveal", label: "Reveal", description: "Listen, then reveal the answer" },
+  { value: "multiple-choice", label: "Multiple choice", description: "Pick from four similar tracks" },
+  { value: "typed", label: "Type it", description: "Type the title and artist" },
+];
+
+const ROUND_TYPES: OptionChoice<RoundType>[] = [
+  { value: "single", label: "Single track", description: "Name one track at a time" },
+  {
+    value: "transition",
+    label: "Transitions",
+    description: "Hear one track's outro mixed into another's intro and name both",
+  },
+];
+
+const SELECTION_STRATEGIES: OptionChoice<SelectionStrategy>[] = [
+  { value: "random", label: "Random", description: "Every track is equally likely" },
+  {
+    value: "spaced-repetition",
+    label: "Spaced repetition",
+    description: "Favour tracks you miss or haven't heard in a while",
+  },
+];
+
+const excerptModes = (settings: QuizSettings): OptionChoice<ExcerptMode>[] => [
+  {
+    value: "fixed",
+    label: `${settings.excerptLength} seconds`,
+    description: `Hear a ${settings.excerptLength} second excerpt`,
+  },
+  {
+    value: "progressive",
+    label: "Progressive",
+    description: "Start with 1 second and unlock more as needed — less audio scores more",
+  },
+];
+
+const START_POINT_STRATEGIES: OptionChoice<StartPointStrategy>[] = [
+  { value: "random", label: "Anywhere", description: "A random point in the middle of the track" },
+  {
+    value: "cues",
+    label: "Cue points",
+    description: "Start at a drop or hot cue set in Rekordbox (random if the track has none)",
+  },
+];
+
+const BEAT_SNAPS: OptionChoice<BeatSnap>[] = [
+  { value: "off", label: "Off", description: "Start at any point" },
+  { value: "downbeat", label: "Downbeat", description: "Start on the first beat of a bar" },
+  { value: "phrase-16", label: "16 bars", description: "Start on a 16-bar phrase boundary" },
+  { value: "phrase-32", label: "32 bars", description: "Start on a 32-bar phrase boundary" },
+];
+
+/**
+ * Describe a round length in whole minutes where possible, e.g. [3, "minute"]
+ */
+function roundLengthUnits(seconds: number): [number, string] {
+  return seconds % 60 === 0 ? [seconds / 60, "minute"] : [seconds, "second"];
+}
+
+const speedModes = (settings: QuizSettings): OptionChoice<SpeedMode>[] => {
+  const [roundLength, roundUnit] = roundLengthUnits(settings.speedRoundTimeLimit);
+  return [
+    { value: "off", label: "Off", description: "Take as long as you like" },
+    {
+      value: "countdown",
+      label: `${settings.speedTrackTimeLimit}s per track`,
+      description: `Answer each track within ${settings.speedTrackTimeLimit} seconds; the quiz moves on by itself`,
+    },
+    {
+      value: "timed-round",
+      label: `${roundLength}-${roundUnit} round`,
+      description: `How many can you get in ${roundLength} ${roundUnit}${roundLength === 1 ? "" : "s"}? ${settings.speedTrackTimeLimit} seconds per track`,
+    },
+  ];
+};
+
+const TONE_FILTERS: OptionChoice<ToneFilter>[] = [
+  { value: "off", label: "Full range", description: "Hear the whole mix" },
+  { value: "low-pass", label: "Bass only", description: "Low-pass filter: just the kick and bassline" },
+  { value: "high-pass", label: "Highs only", description: "High-pass filter: just the hats and top end" },
+];
+
+const PITCH_SHIFTS: OptionChoice<PitchShift>[] = [
+  {
+    value: "down",
+    label: `−${PITCH_SHIFT_PERCENT}%`,
+    description: `Pitch and tempo down ${PITCH_SHIFT_PERCENT}%, like a CDJ pitch fader`,
+  },
+  { value: "off", label: "0%", description: "Original pitch and tempo" },
+  {
+    value: "up",
+    label: `+${PITCH_SHIFT_PERCENT}%`,
+    description: `Pitch and tempo up ${PITCH_SHIFT_PERCENT}%, like a CDJ pitch fader`,
+  },
+];
+
+const MONO_TOGGLE: OptionChoice<Toggle>[] = [
+  { value: "off", label: "Stereo", description: "Original stereo image" },
+  { value: "on", label: "Mono", description: "Collapse to mono" },
+];
+
+const REVERSE_TOGGLE: OptionChoice<Toggle>[] = [
+  { value: "off", label: "Forwards", description: "Play normally" },
+  { value: "on", label: "Reversed", description: "Play the excerpt backwards" },
+];
+
+export function QuizOptions({
+  answerMode,
+  roundType,
+  selectionStrategy,
+  excerptMode,
+  startPointStrategy,
+  beatSnap,
+  speedMode,
+  filters,
+  onChangeAnswerMode,
+  onChangeRoundType,
+  onChangeSelectionStrategy,
+  onChangeExcerptMode,
+  onChangeStartPointStrategy,
+  onChangeBeatSnap,
+  onChangeSpeedMode,
+  onChangeFilters,
+}: QuizOptionsProps) {
+  const settings = getSettings();
+  const changeFilter = (change: Partial<DifficultyFilters>) =>
+    onChangeFilters({ ...filters, ...change });
+  // Transitions are self-graded and always play the same part of each track
+  const isSingle = roundType === "single";
+
+  return (
+    <div className="quiz-options">
+      <OptionGroup
+        label="Round"
+        choices={ROUND_TYPES}
+        value={roundType}
+        onChange={onChangeRoundType}
+      />
+      {isSingle && (
+        <OptionGroup
+          label="Answer mode"
+          choices={ANSWER_MODES}
+          value={answerMode}
+          onChange={onChangeAnswerMode}
+        />
+      )}
+      <OptionGroup
+        label="Speed round"
+        choices={speedModes(settings)}
+        value={speedMode}
+        onChange={onChangeSpeedMode}
+      />
+      {isSingle && (
+        <>
+          <OptionGroup
+            label="Excerpt"
+            choices={excerptModes(settings)}
+            value={excerptMode}
+            onChange={onChangeExcerptMode}
+          />
+          <OptionGroup
+            label="Start point"
+            choices={START_POINT_STRATEGIES}
+            value={startPointStrategy}
+            onChange={onChangeStartPointStrategy}
+          />
+          <OptionGroup
+            label="Snap to beat grid"
+            choices={BEAT_SNAPS}
+            value={beatSnap}
+            onChange={onChangeBeatSnap}
+          />
+        </>
+      )}
+      <OptionGroup
+        label="Track selection"
+        choices={SELECTION_STRATEGIES}
+        value={selectionStrategy}
+        onChange={onChangeSelectionStrategy}
+      />
+      <OptionGroup
+        label="Hard mode: tone"
+        choices={TONE_FILTERS}
+        value={filters.tone}
+        onChange={(tone) => changeFilter({ tone })}
+      />
+      <OptionGroup
+        label="Hard mode: pitch"
+        choices={PITCH_SHIFTS}
+        value={filters.pitch}
+        onChange={(pitch) => changeFilter({ pitch })}
+      />
+      <OptionGroup
+        label="Hard mode: stereo"
+        choices={MONO_TOGGLE}
+        value={filters.mono ? "on" : "off"}
+        onChange={(mono) => changeFilter({ mono: mono === "on" })}
+      />
+      {isSingle && (
+        <OptionGroup
+          label="Hard mode: direction"
+          choices={REVERSE_TOGGLE}
+          value={filters.reversed ? "on" : "off"}
+          onChange={(reversed) => changeFilter({ reversed: reversed === "on" })}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,32 +1,268 @@
+import { useState } from "react";
 import { Track } from "../lib/rekordbox-parser";
+import { AnswerMode, Grade, TransitionSide } from "../lib/quiz-engine";
+import { TypedAnswer, TypedAnswerResult } from "../lib/answer-grading";
 import "./RevealCard.css";
 
 interface RevealCardProps {
   track: Track;
+  incomingTrack: Track | null; // Second track of a transition round
   isRevealed: boolean;
+  answerMode: AnswerMode;
+  choices: Track[] | null;
+  chosenTrackId: string | null;
+  typedResult: TypedAnswerResult | null;
+  grade: Grade | null;
+  transitionGrades: Partial<Record<TransitionSide, Grade>>;
+  roundPoints: number | null;
+  hintsUsed: number; // "Hear more" hints taken before answering
+  nextExcerptLength: number | null; // Length the next progressive step unlocks
   onReveal: () => void;
   onNext: () => void;
+  onChoose: (trackId: string) => void;
+  onSubmitAnswer: (answer: TypedAnswer) => void;
+  onSelfGrade: (grade: Grade, side?: TransitionSide) => void;
+  onExtendExcerpt: () => void;
+}
+
+interface ChoiceListProps {
+  choices: Track[];
+  answerId: string;
+  chosenTrackId: string | null;
+  isRevealed: boolean;
+  onChoose: (trackId: string) => void;
+}
+
+function ChoiceList({
+  choices,
+  answerId,
+  chosenTrackId,
+  isRevealed,
+  onChoose,
+}: ChoiceListProps) {
+  return (
+    <ol className="choice-list">
+      {choices.map((choice, index) => {
+        let modifier = "";
+        if (isRevealed && choice.id === answerId) {
+          modifier = "choice--correct";
+        } else if (isRevealed && choice.id === chosenTrackId) {
+          modifier = "choice--wrong";
+        }
+
+        return (
+          <li key={choice.id}>
+            <button
+              className={`choice ${modifier}`}
+              onClick={() => onChoose(choice.id)}
+              disabled={isRevealed}
+            >
+              <kbd>{index + 1}</kbd>
+              <span className="choice-text">
+                <span className="choice-name" title={choice.name}>{choice.name}</span>
+                <span className="choice-artist" title={choice.artist}>{choice.artist}</span>
+              </span>
+            </button>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+interface AnswerFormProps {
+  onSubmit: (answer: TypedAnswer) => void;
+}
+
+function AnswerForm({ onSubmit }: AnswerFormProps) {
+  const [title, setTitle] = useState("");
+  const [artist, setArtist] = useState("");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({ title, artist });
+  };
+
+  // Escape leaves the field so the global shortcuts work again
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Escape") {
+      e.currentTarget.blur();
+    }
+  };
+
+  return (
+    <form className="answer-form" onSubmit={handleSubmit}>
+      <input
+        className="answer-input"
+        placeholder="Title"
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        onKeyDown={handleKeyDown}
+        autoFocus
+        spellCheck={false}
+      />
+      <input
+        className="answer-input"
+        placeholder="Artist"
+        value={artist}
+        onChange={(e) => setArtist(e.target.value)}
+        onKeyDown={handleKeyDown}
+        spellCheck={false}
+      />
+      {/* Lets Enter submit from either field */}
+      <button type="submit" hidden />
+    </form>
+  );
+}
+
+function TypedResultSummary({ result }: { result: TypedAnswerResult }) {
+  const { answer, titleMatch, artistMatch } = result;
+  return (
+    <p className="typed-result">
+      <span className={titleMatch ? "typed-part--right" : "typed-part--wrong"}>
+        {titleMatch ? "✓" : "✗"} {answer.title || "(no title)"}
+      </span>
+      {" · "}
+      <span className={artistMatch ? "typed-part--right" : "typed-part--wrong"}>
+        {artistMatch ? "✓" : "✗"} {answer.artist || "(no artist)"}
+      </span>
+    </p>
+  );
+}
+
+const GRADE_LABELS: Record<Grade, string> = {
+  correct: "Correct!",
+  partial: "Partly right",
+  missed: "Not quite",
+};
+
+const SELF_GRADES: { grade: Grade; label: string }[] = [
+  { grade: "correct", label: "Got it" },
+  { grade: "partial", label: "Partially" },
+  { grade: "missed", label: "Missed" },
+];
+
+interface SelfGradeButtonsProps {
+  label?: string; // Which track of a transition the row grades
+  firstKey: number; // Number key of the first button
+  chosen?: Grade; // Grade already given, in a transition round
+  onSelfGrade: (grade: Grade) => void;
+}
+
+function SelfGradeButtons({ label, firstKey, chosen, onSelfGrade }: SelfGradeButtonsProps) {
+  return (
+    <div className="self-grade">
+      {label && <span className="self-grade-label">{label}</span>}
+      {SELF_GRADES.map(({ grade, label }, index) => (
+        <button
+          key={grade}
+          className={`self-grade-btn self-grade-btn--${grade} ${
+            chosen === grade ? "self-grade-btn--chosen" : ""
+          }`}
+          onClick={() => onSelfGrade(grade)}
+        >
+          <kbd>{firstKey + index}</kbd> {label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+interface TrackDetailsProps {
+  track: Track;
+  label?: string; // Shown above the track, e.g. which side of a transition it is
+}
+
+function TrackDetails({ track, label }: TrackDetailsProps) {
+  const credits = [track.mixName, track.remixer && `Remix by ${track.remixer}`]
+    .filter(Boolean)
+    .join(" · ");
+
+  return (
+    <div className="track-details">
+      {label && <p className="track-role">{label}</p>}
+      <h2 className="track-name" title={track.name}>{track.name}</h2>
+      <p className="track-artist" title={track.artist}>{track.artist}</p>
+      {credits && <p className="track-credits" title={credits}>{credits}</p>}
+      {track.album && <p className="track-album" title={track.album}>{track.album}</p>}
+      <div className="track-meta">
+        {track.colour && (
+          <span
+            className={`meta-colour meta-colour--${track.colour}`}
+            title={`${track.colour} colour tag`}
+          />
+        )}
+        {track.bpm && <span className="meta-tag">{Math.round(track.bpm)} BPM</span>}
+        {track.key && <span className="meta-tag">{track.key}</span>}
+        {track.genre && <span className="meta-tag">{track.genre}</span>}
+        {track.year && <span className="meta-tag">{track.year}</span>}
+        {track.label && <span className="meta-tag">{track.label}</span>}
+        {track.rating ? (
+          <span className="meta-tag" title={`Rated ${track.rating} of 5`}>
+            {"★".repeat(track.rating)}
+          </span>
+        ) : null}
+      </div>
+    </div>
+  );
 }
 
 export function RevealCard({
   track,
+  incomingTrack,
   isRevealed,
+  answerMode,
+  choices,
+  chosenTrackId,
+  typedResult,
+  grade,
+  transitionGrades,
+  roundPoints,
+  hintsUsed,
+  nextExcerptLength,
   onReveal,
   onNext,
+  onChoose,
+  onSubmitAnswer,
+  onSelfGrade,
+  onExtendExcerpt,
 }: RevealCardProps) {
+  const isTyped = answerMode === "typed";
+  const gaveUp = answerMode !== "reveal" && !chosenTrackId && !typedResult;
+
   return (
-    <div className="reveal-card">
+    <div className={`reveal-card ${choices || isTyped ? "reveal-card--choices" : ""}`}>
       {isRevealed ? (
         <div className="track-info">
-          <h2 className="track-name" title={track.name}>{track.name}</h2>
-          <p className="track-artist" title={track.artist}>{track.artist}</p>
-          {track.album && <p className="track-album" title={track.album}>{track.album}</p>}
-          <div className="track-meta">
-            {track.bpm && <span className="meta-tag">{Math.round(track.bpm)} BPM</span>}
-            {track.key && <span className="meta-tag">{track.key}</span>}
-            {track.genre && <span className="meta-tag">{track.genre}</span>}
-          </div>
+          {grade && (
+            <p className={`answer-result answer-result--${grade}`}>
+              {gaveUp ? "No answer" : GRADE_LABELS[grade]}
+              {roundPoints !== null && ` · +${roundPoints}`}
+              {hintsUsed > 0 && ` · ${hintsUsed} hint${hintsUsed === 1 ? "" : "s"}`}
+            </p>
+          )}
+          {typedResult && <TypedResultSummary result={typedResult} />}
+          {incomingTrack ? (
+            <div className="transition-tracks">
+              <TrackDetails track={track} label="Mixing out" />
+              <TrackDetails track={incomingTrack} label="Mixing in" />
+            </div>
+          ) : (
+            <TrackDetails track={track} />
+          )}
+        </div>
+      ) : incomingTrack ? (
+        <div className="mystery">
+          <div className="mystery-icon">??</div>
+          <p className="mystery-text">Which two tracks are in this mix?</p>
         </div>
+      ) : choices ? (
+        <p className="mystery-text">Which track is this?</p>
+      ) : isTyped ? (
+        <>
+          <p className="mystery-text">Name that track</p>
+          <AnswerForm key={track.id} onSubmit={onSubmitAnswer} />
+        </>
       ) : (
         <div className="mystery">
           <div className="mystery-icon">?</div>
@@ -34,11 +270,49 @@ export function RevealCard({
         </div>
       )}
 
+      {choices && (
+        <ChoiceList
+          choices={choices}
+          answerId={track.id}
+          chosenTrackId={chosenTrackId}
+          isRevealed={isRevealed}
+          onChoose={onChoose}
+        />
+      )}
+
+      {isRevealed && answerMode === "reveal" && grade === null && (
+        incomingTrack ? (
+          <>
+            <SelfGradeButtons
+              label="Mixing out"
+              firstKey={1}
+              chosen={transitionGrades.outgoing}
+              onSelfGrade={(grade) => onSelfGrade(grade, "outgoing")}
+            />
+            <SelfGradeButtons
+              label="Mixing in"
+              firstKey={4}
+              chosen={transitionGrades.incoming}
+              onSelfGrade={(grade) => onSelfGrade(grade, "incoming")}
+            />
+          </>
+        ) : (
+          <SelfGradeButtons firstKey={1} onSelfGrade={onSelfGrade} />
+        )
+      )}
+
       <div className="card-actions">
         {!isRevealed ? (
-          <button className="btn btn--primary" onClick={onReveal}>
-            Reveal
-          </button>
+          <>
+            {nextExcerptLength !== null && (
+              <button className="btn btn--secondary" onClick={onExtendExcerpt}>
+                I don't know yet (+{nextExcerptLength}s)
+              </button>
+            )}
+            <button className="btn btn--primary" onClick={onReveal}>
+              Reveal
+            </button>
+          </>
         ) : (
           <button className="btn btn--primary" onClick={onNext}>
             Next
@@ -0,0 +1,53 @@
+import { SessionStats } from "../lib/scoring";
+import { DifficultyFilters, describeFilters, difficultyMultiplier } from "../lib/difficulty";
+import "./Scoreboard.css";
+
+interface ScoreboardProps {
+  session: SessionStats;
+  filters: DifficultyFilters;
+  onEndSession: () => void;
+}
+
+export function formatAccuracy(accuracy: number): string {
+  return `${Math.round(accuracy * 100)}%`;
+}
+
+export function formatResponseTime(seconds: number | null): string {
+  return seconds === null ? "—" : `${seconds.toFixed(1)}s`;
+}
+
+export function Scoreboard({ session, filters, onEndSession }: ScoreboardProps) {
+  const filterLabels = describeFilters(filters);
+
+  return (
+    <div className="scoreboard">
+      <div className="score-stat">
+        <span className="score-value">{session.score}</span>
+        <span className="score-label">Score</span>
+      </div>
+      <div className="score-stat">
+        <span className="score-value">{session.streak}</span>
+        <span className="score-label">Streak</span>
+      </div>
+      <div className="score-stat">
+        <span className="score-value">
+          {session.rounds > 0 ? formatAccuracy(session.accuracy) : "—"}
+        </span>
+        <span className="score-label">Accuracy</span>
+      </div>
+      <div className="score-stat">
+        <span className="score-value">{formatResponseTime(session.averageResponseTime)}</span>
+        <span className="score-label">Avg time</span>
+      </div>
+      {filterLabels.length > 0 && (
+        <div className="score-stat" title="Hard mode filters multiply your points">
+          <span className="score-value">×{difficultyMultiplier(filters).toFixed(2)}</span>
+          <span className="score-label">{filterLabels.join(" · ")}</span>
+        </div>
+      )}
+      <button className="header-btn" onClick={onEndSession} title="End this session">
+        End
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { SessionStats } from "../lib/scoring";
+import { formatAccuracy, formatResponseTime } from "./Scoreboard";
+import "./SessionSummary.css";
+
+interface SessionSummaryProps {
+  summary: SessionStats;
+  onDismiss: () => void;
+}
+
+export function SessionSummary({ summary, onDismiss }: SessionSummaryProps) {
+  // From the first round playing to the last one graded, so idle time around the session doesn't count
+  const elapsed =
+    summary.startedAt !== null && summary.endedAt !== null ? summary.endedAt - summary.startedAt : 0;
+  const minutes = Math.max(1, Math.round(elapsed / 60000));
+
+  return (
+    <div className="session-summary">
+      <h2>Session complete</h2>
+      <p className="session-score">{summary.score} points</p>
+      <dl className="session-stats">
+        <dt>Tracks</dt>
+        <dd>{summary.rounds}</dd>
+        <dt>Got it</dt>
+        <dd>{summary.correct}</dd>
+        <dt>Partially</dt>
+        <dd>{summary.partial}</dd>
+        <dt>Missed</dt>
+        <dd>{summary.missed}</dd>
+        <dt>Accuracy</dt>
+        <dd>{formatAccuracy(summary.accuracy)}</dd>
+        <dt>Best streak</dt>
+        <dd>{summary.bestStreak}</dd>
+        <dt>Hints</dt>
+        <dd>
+          {summary.hintsUsed}
+          {summary.hintedRounds > 0 && ` (${summary.hintedRounds} track${summary.hintedRounds === 1 ? "" : "s"})`}
+        </dd>
+        <dt>Avg response</dt>
+        <dd>{formatResponseTime(summary.averageResponseTime)}</dd>
+        <dt>Duration</dt>
+        <dd>{minutes} min</dd>
+      </dl>
+      <button className="btn btn--secondary" onClick={onDismiss}>
+        Dismiss
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+import { useEffect, useState } from "react";
+import {
+  QuizSettings,
+  SettingsErrors,
+  DEFAULT_SETTINGS,
+  getSettings,
+  saveSettings,
+  validateSettings,
+} from "../lib/settings";
+import { setGlobalShortcut } from "../lib/global-shortcut";
+import { DEFAULT_OUTPUT_DEVICE, OutputDevice, getAudioPlayer } from "../lib/audio-player";
+import "./SettingsPanel.css";
+
+interface SettingsPanelProps {
+  onClose: () => void;
+}
+
+type NumberSettingKey = {
+  [K in keyof QuizSettings]: QuizSettings[K] extends number ? K : never;
+}[keyof QuizSettings];
+
+interface NumberFieldProps {
+  label: string;
+  unit: string;
+  field: NumberSettingKey;
+  step?: number;
+  draft: QuizSettings;
+  errors: SettingsErrors;
+  onChange: (field: NumberSettingKey, value: number) => void;
+}
+
+function NumberField({ label, unit, field, step = 1, draft, errors, onChange }: NumberFieldProps) {
+  return (
+    <label className="settings-field">
+      <span className="settings-field-label">{label}</span>
+      <span className="settings-field-input">
+        <input
+          type="number"
+          step={step}
+          value={Number.isNaN(draft[field]) ? "" : draft[field]}
+          onChange={(e) => onChange(field, e.target.valueAsNumber)}
+        />
+        <span className="settings-unit">{unit}</span>
+      </span>
+      {errors[field] && <span className="settings-error">{errors[field]}</span>}
+    </label>
+  );
+}
+
+export function SettingsPanel({ onClose }: SettingsPanelProps) {
+  const [draft, setDraft] = useState<QuizSettings>(() => ({ ...getSettings() }));
+  const [errors, setErrors] = useState<SettingsErrors>({});
+  const [outputDevices, setOutputDevices] = useState<OutputDevice[]>([]);
+  const canSelectOutput = getAudioPlayer().canSelectOutput();
+
+  // Keep the device list current while the panel is open
+  useEffect(() => {
+    if (!canSelectOutput) return;
+    const refresh = () => {
+      getAudioPlayer()
+        .listOutputDevices()
+        .then(setOutputDevices)
+        .catch((err) => console.error("Failed to list audio outputs:", err));
+    };
+    refresh();
+    navigator.mediaDevices?.addEventListener("devicechange", refresh);
+    return () => navigator.mediaDevices?.removeEventListener("devicechange", refresh);
+  }, [canSelectOutput]);
+
+  // A saved device that isn't plugged in stays selectable
+  const savedDeviceMissing =
+    draft.outputDeviceId !== DEFAULT_OUTPUT_DEVICE &&
+    !outputDevices.some((device) => device.id === draft.outputDeviceId);
+
+  const handleNumberChange = (field: NumberSettingKey, value: number) => {
+    setDraft((current) => ({ ...current, [field]: value }));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const settings = { ...draft, globalShortcut: draft.globalShortcut.trim() };
+    const invalid = validateSettings(settings);
+    if (Object.keys(invalid).length > 0) {
+      setErrors(invalid);
+      return;
+    }
+
+    // The backend decides whether a shortcut is valid and free
+    if (settings.globalShortcut !== getSettings().globalShortcut) {
+      try {
+        await setGlobalShortcut(settings.globalShortcut);
+      } catch (err) {
+        setErrors({ globalShortcut: String(err) });
+        return;
+      }
+    }
+
+    const result = saveSettings(settings);
+    setErrors(result);
+    if (Object.keys(result).length === 0) {
+      onClose();
+    }
+  };
+
+  const fieldProps = { draft, errors, onChange: handleNumberChange };
+
+  return (
+    <div className="settings-overlay" onClick={onClose}>
+      <form
+        className="settings-panel"
+        onClick={(e) => e.stopPropagation()}
+        onSubmit={handleSave}
+      >
+        <h2>Settings</h2>
+
+        <section className="settings-section">
+          <h3>Excerpts</h3>
+          <NumberField label="Excerpt length" unit="s" field="excerptLength" {...fieldProps} />
+          <NumberField label="Start window from" unit="%" field="startWindowStart" {...fieldProps} />
+          <NumberField label="Start window to" unit="%" field="startWindowEnd" {...fieldProps} />
+          <label className="settings-field settings-field--checkbox">
+            <input
+              type="checkbox"
+              checked={draft.autoPlay}
+              onChange={(e) => setDraft({ ...draft, autoPlay: e.target.checked })}
+            />
+            <span className="settings-field-label">Play automatically when a track loads</span>
+          </label>
+          <label className="settings-field settings-field--checkbox">
+            <input
+              type="checkbox"
+              checked={draft.normalizeLoudness}
+              onChange={(e) => setDraft({ ...draft, normalizeLoudness: e.target.checked })}
+            />
+            <span className="settings-field-label">Even out loudness between tracks</span>
+          </label>
+        </section>
+
+        <section className="settings-section">
+          <h3>Speed rounds</h3>
+          <NumberField label="Time per track" unit="s" field="speedTrackTimeLimit" {...fieldProps} />
+          <NumberField label="Round length" unit="s" field="speedRoundTimeLimit" {...fieldProps} />
+          <NumberField
+            label="Pause before next track"
+            unit="s"
+            field="speedAdvanceDelay"
+            step={0.5}
+            {...fieldProps}
+          />
+        </section>
+
+        <section className="settings-section">
+          <h3>Output</h3>
+          <label className="settings-field">
+            <span className="settings-field-label">Play the quiz through</span>
+            <span className="settings-field-input">
+              <select
+                className="settings-device-select"
+                value={draft.outputDeviceId}
+                disabled={!canSelectOutput}
+                onChange={(e) => setDraft({ ...draft, outputDeviceId: e.target.value })}
+              >
+                <option value={DEFAULT_OUTPUT_DEVICE}>System default</option>
+                {outputDevices.map((device) => (
+                  <option key={device.id} value={device.id}>
+                    {device.label}
+                  </option>
+                ))}
+                {savedDeviceMissing && (
+                  <option value={draft.outputDeviceId}>Saved device (not connected)</option>
+                )}
+              </select>
+            </span>
+          </label>
+          <p className="settings-note">
+            {canSelectOutput
+              ? "If the device is unplugged, the quiz pauses and switches to the system default until it's back."
+              : "Choosing an output isn't available on macOS, where the web view can only play through the system default. Change it in System Settings › Sound."}
+          </p>
+        </section>
+
+        <section className="settings-section">
+          <h3>Controls</h3>
+          <label className="settings-field">
+            <span className="settings-field-label">Reveal / next track from any app</span>
+            <span className="settings-field-input">
+              <input
+                type="text"
+                placeholder="e.g. CmdOrCtrl+Shift+Enter"
+                value={draft.globalShortcut}
+                onChange={(e) => setDraft({ ...draft, globalShortcut: e.target.value })}
+              />
+            </span>
+            {errors.globalShortcut && (
+              <span className="settings-error">{errors.globalShortcut}</span>
+            )}
+          </label>
+          <p className="settings-note">
+            Media keys and headphone buttons also work: play/pause, "previous" to replay the
+            excerpt and "next" to reveal or move on.
+          </p>
+        </section>
+
+        <section className="settings-section">
+          <h3>Library</h3>
+          <NumberField
+            label="Tracks to try before giving up"
+            unit=""
+            field="maxLoadAttempts"
+            {...fieldProps}
+          />
+        </section>
+
+        <div className="settings-actions">
+          <button
+            type="button"
+            className="btn btn--secondary"
+            onClick={() => {
+              setDraft({ ...DEFAULT_SETTINGS });
+              setErrors({});
+            }}
+          >
+            Defaults
+          </button>
+          <button type="button" className="btn btn--secondary" onClick={onClose}>
+            Cancel
+          </button>
+          <button type="submit" className="btn btn--primary">
+            Save
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -40,7 +40,7 @@ export function SourceChooser({ onChooseDatabase, onChooseXml, isLoading }: Sour
             Read directly from Rekordbox — no export needed.
           </p>
           <p className="source-option-caveat">
-            Note: Smart playlists are not supported.
+            Note: Smart playlists using My Tag rules can't be evaluated.
           </p>
         </button>
 
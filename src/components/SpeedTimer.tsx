@@ -0,0 +1,37 @@
+import { QuizTimer } from "../lib/speed-round";
+import "./SpeedTimer.css";
+
+interface SpeedTimerProps {
+  timer: QuizTimer;
+}
+
+function formatClock(seconds: number): string {
+  const whole = Math.ceil(seconds);
+  const mins = Math.floor(whole / 60);
+  const secs = whole % 60;
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+export function SpeedTimer({ timer }: SpeedTimerProps) {
+  const { trackTimeLeft, trackTimeLimit, roundTimeLeft, isPaused } = timer;
+  const fraction = trackTimeLimit > 0 ? trackTimeLeft / trackTimeLimit : 0;
+  const isUrgent = trackTimeLeft <= 3;
+
+  return (
+    <div className={`speed-timer ${isPaused ? "speed-timer--paused" : ""}`}>
+      <div className="speed-track">
+        <div
+          className={`speed-track-fill ${isUrgent ? "speed-track-fill--urgent" : ""}`}
+          style={{ width: `${fraction * 100}%` }}
+        />
+      </div>
+      <span className="speed-track-time">{Math.ceil(trackTimeLeft)}s</span>
+      {roundTimeLeft !== null && (
+        <span className="speed-round-time" title="Time left in this round">
+          {formatClock(roundTimeLeft)}
+        </span>
+      )}
+      {isPaused && <span className="speed-paused">Paused</span>}
+    </div>
+  );
+}
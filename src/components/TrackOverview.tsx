@@ -0,0 +1,57 @@
+import { useMemo, useCallback } from "react";
+import { PlaybackState } from "../lib/audio-player";
+import { WaveformData, getExcerptSection, getWaveformPeaks } from "../lib/waveform";
+import { formatTime, usePlaybackTime } from "./Player";
+import { Waveform } from "./Waveform";
+import "./TrackOverview.css";
+
+interface TrackOverviewProps {
+  waveform: WaveformData;
+  playbackState: PlaybackState;
+  reversed: boolean;
+  onSeek: (time: number) => void;
+}
+
+// Bars drawn in the full-track overview
+const OVERVIEW_BARS = 240;
+
+/**
+ * Full-track waveform shown after reveal, with the excerpt marked
+ */
+export function TrackOverview({ waveform, playbackState, reversed, onSeek }: TrackOverviewProps) {
+  const { maxPlayTime, startOffset } = playbackState;
+  const currentTime = usePlaybackTime();
+  const { duration } = waveform;
+
+  const peaks = useMemo(
+    () => getWaveformPeaks(waveform, 0, duration, OVERVIEW_BARS),
+    [waveform, duration]
+  );
+  const section = getExcerptSection(waveform, startOffset, maxPlayTime, reversed);
+  const playhead = reversed ? section.end - currentTime : section.start + currentTime;
+
+  const handleSeek = useCallback((fraction: number) => {
+    const time = fraction * duration;
+    // Positions outside the excerpt are clamped to it by the player
+    onSeek(reversed ? section.end - time : time - section.start);
+  }, [duration, reversed, section.start, section.end, onSeek]);
+
+  if (duration <= 0) return null;
+
+  return (
+    <div className="track-overview">
+      <div className="track-overview-header">
+        <span>Where the excerpt sits</span>
+        <span>
+          {formatTime(section.start)}–{formatTime(section.end)} of {formatTime(duration)}
+        </span>
+      </div>
+      <Waveform
+        peaks={peaks}
+        progress={playhead / duration}
+        region={[section.start / duration, section.end / duration]}
+        onSeek={handleSeek}
+      />
+    </div>
+  );
+}
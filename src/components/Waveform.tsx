@@ -0,0 +1,105 @@
+import { useEffect, useRef, useCallback } from "react";
+import { WaveformPeaks } from "../lib/waveform";
+import "./Waveform.css";
+
+interface WaveformProps {
+  peaks: WaveformPeaks;
+  progress: number; // Playhead position (0–1)
+  available?: number; // Playable part (0–1); the rest is dimmed
+  region?: [number, number]; // Highlighted part (0–1); the rest is dimmed
+  markers?: number[]; // Divider lines (0–1)
+  onSeek: (fraction: number) => void;
+}
+
+function cssColor(element: Element, name: string): string {
+  return getComputedStyle(element).getPropertyValue(name).trim();
+}
+
+export function Waveform({ peaks, progress, available = 1, region, markers, onSeek }: WaveformProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const draw = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    const width = canvas.clientWidth;
+    const height = canvas.clientHeight;
+    canvas.width = Math.round(width * ratio);
+    canvas.height = Math.round(height * ratio);
+    ctx.scale(ratio, ratio);
+    ctx.clearRect(0, 0, width, height);
+
+    const played = cssColor(canvas, "--accent-color");
+    const unplayed = cssColor(canvas, "--text-secondary");
+    const dimmed = cssColor(canvas, "--border-hover");
+    const bars = peaks.min.length;
+    const barWidth = width / bars;
+    const middle = height / 2;
+
+    for (let bar = 0; bar < bars; bar++) {
+      const position = (bar + 0.5) / bars;
+      const outside =
+        position > available || (region && (position < region[0] || position > region[1]));
+      ctx.fillStyle = outside ? dimmed : position <= progress ? played : unplayed;
+
+      const top = middle - peaks.max[bar] * middle;
+      const bottom = middle - peaks.min[bar] * middle;
+      ctx.fillRect(
+        bar * barWidth,
+        top,
+        Math.max(1, barWidth - 1),
+        Math.max(1, bottom - top)
+      );
+    }
+
+    if (markers) {
+      ctx.fillStyle = cssColor(canvas, "--surface-color");
+      for (const marker of markers) {
+        ctx.fillRect(marker * width - 1, 0, 2, height);
+      }
+    }
+
+    ctx.fillStyle = cssColor(canvas, "--text-primary");
+    ctx.fillRect(Math.min(width - 2, progress * width), 0, 2, height);
+  }, [peaks, progress, available, region, markers]);
+
+  useEffect(() => {
+    draw();
+  }, [draw]);
+
+  // Redraw at the new size when the layout changes
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(() => draw());
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [draw]);
+
+  const fractionFromEvent = useCallback((clientX: number): number => {
+    if (!canvasRef.current) return 0;
+    const rect = canvasRef.current.getBoundingClientRect();
+    return Math.max(0, Math.min(1, (clientX - rect.left) / rect.width));
+  }, []);
+
+  const handleMouseDown = useCallback((e: React.MouseEvent) => {
+    onSeek(fractionFromEvent(e.clientX));
+
+    const handleMouseMove = (e: MouseEvent) => {
+      onSeek(fractionFromEvent(e.clientX));
+    };
+
+    const handleMouseUp = () => {
+      document.removeEventListener("mousemove", handleMouseMove);
+      document.removeEventListener("mouseup", handleMouseUp);
+    };
+
+    document.addEventListener("mousemove", handleMouseMove);
+    document.addEventListener("mouseup", handleMouseUp);
+  }, [fractionFromEvent, onSeek]);
+
+  return <canvas className="waveform" ref={canvasRef} onMouseDown={handleMouseDown} />;
+}
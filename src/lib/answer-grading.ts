@@ -0,0 +1,137 @@
+import { Track } from "./rekordbox-parser";
+import type { Grade } from "./quiz-engine";
+
+export interface TypedAnswer {
+  title: string;
+  artist: string;
+}
+
+export interface TypedAnswerResult {
+  answer: TypedAnswer;
+  titleMatch: boolean;
+  artistMatch: boolean;
+  grade: Grade;
+}
+
+// Bracketed suffixes that describe the version rather than the song,
+// e.g. "(Original Mix)", "[Extended Mix]", "(Bicep Remix)", "(Radio Edit)"
+const VERSION_BRACKET = /[([][^)\]]*\b(mix|remix|edit|dub|version|rework|bootleg|vip|remaster(ed)?|instrumental)\b[^)\]]*[)\]]/gi;
+
+// "feat. X", "ft X", "featuring X" until the end or the next bracket
+const FEATURING = /[([]?\b(feat|ft|featuring)\b\.?[^)\]]*[)\]]?/gi;
+
+// Separators between multiple artists in a single artist field
+const ARTIST_SEPARATORS = /\s*(?:,|&|\+|\/|\band\b|\bx\b|\bvs\.?|\bversus\b|\bwith\b)\s*/i;
+
+/**
+ * Lowercase, strip diacritics and punctuation, and collapse whitespace
+ */
+function simplify(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/['’`]/g, "")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/**
+ * Reduce a title to the part that identifies the song
+ */
+export function normalizeTitle(title: string): string {
+  return simplify(title.replace(VERSION_BRACKET, " ").replace(FEATURING, " "));
+}
+
+/**
+ * Split an artist field into individual normalized artist names.
+ * "Bicep feat. Clara La San" and "Bicep & Clara La San" both yield both names.
+ */
+export function splitArtists(artist: string): string[] {
+  const withoutFeat = artist.replace(/\b(feat|ft|featuring)\b\.?/gi, ",");
+  return withoutFeat
+    .split(ARTIST_SEPARATORS)
+    .map(simplify)
+    .filter((name) => name.length > 0);
+}
+
+/**
+ * Levenshtein edit distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Whether two normalized strings are close enough to count as the same,
+ * allowing roughly one typo per five characters
+ */
+function isCloseMatch(guess: string, target: string): boolean {
+  if (!guess || !target) return false;
+  if (guess === target) return true;
+
+  const allowed = Math.floor(Math.max(guess.length, target.length) / 5);
+  if (allowed === 0) return false;
+  return editDistance(guess, target) <= allowed;
+}
+
+/**
+ * Grade a typed title guess against the track title
+ */
+export function matchTitle(guess: string, title: string): boolean {
+  const normalizedGuess = normalizeTitle(guess);
+  return isCloseMatch(normalizedGuess, normalizeTitle(title)) ||
+    isCloseMatch(normalizedGuess, simplify(title));
+}
+
+/**
+ * Grade a typed artist guess against the track artist.
+ * Naming any one of the credited artists counts, as does the full credit.
+ */
+export function matchArtist(guess: string, artist: string): boolean {
+  const normalizedGuess = simplify(guess);
+  if (isCloseMatch(normalizedGuess, simplify(artist))) return true;
+
+  const guessedArtists = splitArtists(guess);
+  const trackArtists = splitArtists(artist);
+  return guessedArtists.length > 0 && guessedArtists.every((guessed) =>
+    trackArtists.some((name) => isCloseMatch(guessed, name))
+  );
+}
+
+/**
+ * Grade a typed answer. Both parts right is correct, one part right is partial.
+ * When the track has no artist credit only the title is graded.
+ */
+export function gradeTypedAnswer(answer: TypedAnswer, track: Track): TypedAnswerResult {
+  const titleMatch = matchTitle(answer.title, track.name);
+  const hasArtist = splitArtists(track.artist).length > 0 &&
+    track.artist !== "Unknown Artist";
+  const artistMatch = hasArtist ? matchArtist(answer.artist, track.artist) : titleMatch;
+
+  let grade: Grade = "missed";
+  if (titleMatch && artistMatch) {
+    grade = "correct";
+  } else if (titleMatch || artistMatch) {
+    grade = "partial";
+  }
+
+  return { answer, titleMatch, artistMatch, grade };
+}
@@ -0,0 +1,49 @@
+import {
+  BaseDirectory,
+  exists,
+  mkdir,
+  readTextFile,
+  writeTextFile,
+} from "@tauri-apps/plugin-fs";
+import { appDataDir } from "@tauri-apps/api/path";
+
+/**
+ * Read a JSON file from the app data directory.
+ * Returns null if the file doesn't exist or can't be parsed.
+ */
+export async function readAppDataJson<T>(fileName: string): Promise<T | null> {
+  try {
+    if (!(await exists(fileName, { baseDir: BaseDirectory.AppData }))) {
+      return null;
+    }
+    const content = await readTextFile(fileName, { baseDir: BaseDirectory.AppData });
+    return JSON.parse(content) as T;
+  } catch (err) {
+    console.error(`[app-data] Failed to read ${fileName}:`, err);
+    return null;
+  }
+}
+
+// Writes are chained so a slow write can't land after a newer one
+let writeQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Write a JSON file to the app data directory, creating the directory if needed
+ */
+export function writeAppDataJson(fileName: string, data: unknown): Promise<void> {
+  const write = async () => {
+    try {
+      const dir = await appDataDir();
+      if (!(await exists(dir))) {
+        await mkdir(dir, { recursive: true });
+      }
+      await writeTextFile(fileName, JSON.stringify(data), {
+        baseDir: BaseDirectory.AppData,
+      });
+    } catch (err) {
+      console.error(`[app-data] Failed to write ${fileName}:`, err);
+    }
+  };
+  writeQueue = writeQueue.then(write);
+  return writeQueue;
+}
@@ -0,0 +1,130 @@
+import { convertFileSrc } from "@tauri-apps/api/core";
+import { canPlayNatively, getDecodedUrl, recordFallback } from "./audio-format";
+
+// Tracks are decoded at a reduced rate for analysis to keep memory down
+const ANALYSIS_SAMPLE_RATE = 22050;
+
+// Minimum audio prepared for reversed playback (seconds)
+const REVERSED_WINDOW = 60;
+
+// Decodes in progress, so analyses of the same file share one
+const pendingDecodes: Map<string, Promise<AudioBuffer>> = new Map();
+
+async function fetchAndDecode(url: string, context: BaseAudioContext): Promise<AudioBuffer> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to read audio file (${response.status})`);
+  }
+  const data = await response.arrayBuffer();
+  return context.decodeAudioData(data);
+}
+
+/**
+ * Read and decode a whole audio file.
+ * The result is resampled to the context's sample rate, so a low-rate
+ * OfflineAudioContext keeps memory down when full quality isn't needed.
+ * Formats the WebView can't decode are decoded by the backend instead.
+ */
+export async function decodeAudioFile(
+  filePath: string,
+  context: BaseAudioContext
+): Promise<AudioBuffer> {
+  if (canPlayNatively(filePath)) {
+    try {
+      return await fetchAndDecode(convertFileSrc(filePath), context);
+    } catch (err) {
+      if (!(err instanceof DOMException)) throw err;
+      // decodeAudioData rejected the format; try the backend
+    }
+  }
+  const buffer = await fetchAndDecode(getDecodedUrl(filePath), context);
+  recordFallback(filePath);
+  return buffer;
+}
+
+/**
+ * Decode a file at a reduced sample rate for analysis (loudness, waveforms).
+ * Concurrent requests for the same file share one decode.
+ */
+export function decodeForAnalysis(filePath: string): Promise<AudioBuffer> {
+  let pending = pendingDecodes.get(filePath);
+  if (!pending) {
+    const context = new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE);
+    pending = decodeAudioFile(filePath, context).finally(() => pendingDecodes.delete(filePath));
+    pendingDecodes.set(filePath, pending);
+  }
+  return pending;
+}
+
+/**
+ * The part of a track used for reversed playback: the audio leading up to the
+ * start point, played backwards from it. Start points too close to the
+ * beginning use the opening instead.
+ * @param minLength - Shortest section to prepare (seconds)
+ */
+export function getReversedSection(
+  startOffset: number,
+  duration: number,
+  minLength: number
+): { start: number; end: number } {
+  const length = Math.max(REVERSED_WINDOW, minLength);
+  const end = Math.max(startOffset, Math.min(duration, length));
+  return { start: Math.max(0, end - length), end };
+}
+
+/**
+ * Copy a section of decoded audio, reversed
+ * @param start - Start of the section (seconds)
+ * @param end - End of the section (seconds)
+ */
+export function reverseSection(buffer: AudioBuffer, start: number, end: number): Float32Array[] {
+  const first = Math.max(0, Math.floor(start * buffer.sampleRate));
+  const last = Math.min(buffer.length, Math.floor(end * buffer.sampleRate));
+
+  return Array.from({ length: buffer.numberOfChannels }, (_, c) => {
+    const section = buffer.getChannelData(c).slice(first, last);
+    return section.reverse();
+  });
+}
+
+/**
+ * Encode samples as a 16-bit PCM WAV file
+ */
+export function encodeWav(channels: Float32Array[], sampleRate: number): Blob {
+  const channelCount = channels.length;
+  const frameCount = channels[0]?.length ?? 0;
+  const blockAlign = channelCount * 2;
+  const dataSize = frameCount * blockAlign;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      view.setUint8(offset + i, text.charCodeAt(i));
+    }
+  };
+
+  writeString(0, "RIFF");
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, "WAVE");
+  writeString(12, "fmt ");
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channelCount, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, 16, true); // Bits per sample
+  writeString(36, "data");
+  view.setUint32(40, dataSize, true);
+
+  let offset = 44;
+  for (let i = 0; i < frameCount; i++) {
+    for (let c = 0; c < channelCount; c++) {
+      const sample = Math.max(-1, Math.min(1, channels[c][i]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += 2;
+    }
+  }
+
+  return new Blob([view], { type: "audio/wav" });
+}
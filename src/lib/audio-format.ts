@@ -0,0 +1,110 @@
+import { convertFileSrc, invoke } from "@tauri-apps/api/core";
+
+// Custom protocol where the backend serves files it has decoded to WAV
+const DECODED_SCHEME = "decoded";
+
+// MIME types for asking the WebView what it can play, by file extension
+const MIME_TYPES: Record<string, string> = {
+  mp3: "audio/mpeg",
+  m4a: "audio/mp4",
+  mp4: "audio/mp4",
+  aac: "audio/aac",
+  wav: "audio/wav",
+  aif: "audio/aiff",
+  aiff: "audio/aiff",
+  flac: "audio/flac",
+  ogg: "audio/ogg",
+};
+
+// Display names for the codecs the backend reports
+const CODEC_LABELS: Record<string, string> = {
+  alac: "ALAC",
+  flac: "FLAC",
+  aac: "AAC",
+  mp3: "MP3",
+  vorbis: "Vorbis",
+};
+
+export type FallbackFormatsListener = (formats: Map<string, number>) => void;
+
+const nativeSupport: Map<string, boolean> = new Map();
+const fallbackFiles: Map<string, string> = new Map(); // File path -> format label
+const listeners: Set<FallbackFormatsListener> = new Set();
+
+function getExtension(filePath: string): string {
+  const name = filePath.split("/").pop() ?? "";
+  const dot = name.lastIndexOf(".");
+  return dot >= 0 ? name.slice(dot + 1).toLowerCase() : "";
+}
+
+/**
+ * Whether the WebView says it can play a file's format. Unknown formats are
+ * given a try; containers like M4A can still fail on the codec inside.
+ */
+export function canPlayNatively(filePath: string): boolean {
+  const mimeType = MIME_TYPES[getExtension(filePath)];
+  if (!mimeType) return true;
+
+  let supported = nativeSupport.get(mimeType);
+  if (supported === undefined) {
+    supported = new Audio().canPlayType(mimeType) !== "";
+    nativeSupport.set(mimeType, supported);
+  }
+  return supported;
+}
+
+/**
+ * URL of a file decoded to WAV by the backend, for formats the WebView can't play
+ */
+export function getDecodedUrl(filePath: string): string {
+  return convertFileSrc(filePath, DECODED_SCHEME);
+}
+
+/**
+ * Name a file's audio format, e.g. "ALAC" or "AIFF", using the codec the
+ * backend detects and falling back to the file extension
+ */
+export async function describeFormat(filePath: string): Promise<string> {
+  const extension = getExtension(filePath).toUpperCase() || "Unknown";
+  try {
+    const codec = await invoke<string>("probe_audio_codec", { path: filePath });
+    if (CODEC_LABELS[codec]) return CODEC_LABELS[codec];
+    // Uncompressed audio is named after its container (AIFF, WAV)
+    return codec.startsWith("pcm_") ? extension : codec.toUpperCase();
+  } catch {
+    return extension;
+  }
+}
+
+/**
+ * Note that a file needed fallback decoding. Each file is counted once.
+ */
+export async function recordFallback(filePath: string): Promise<void> {
+  if (fallbackFiles.has(filePath)) return;
+  fallbackFiles.set(filePath, "");
+  fallbackFiles.set(filePath, await describeFormat(filePath));
+  const formats = getFallbackFormats();
+  for (const listener of listeners) {
+    listener(formats);
+  }
+}
+
+/**
+ * Formats that needed fallback decoding this session, with how many files of each
+ */
+export function getFallbackFormats(): Map<string, number> {
+  const formats: Map<string, number> = new Map();
+  for (const label of fallbackFiles.values()) {
+    if (label) formats.set(label, (formats.get(label) ?? 0) + 1);
+  }
+  return formats;
+}
+
+/**
+ * Subscribe to changes in the formats that needed fallback decoding
+ */
+export function subscribeFallbackFormats(listener: FallbackFormatsListener): () => void {
+  listeners.add(listener);
+  listener(getFallbackFormats());
+  return () => listeners.delete(listener);
+}
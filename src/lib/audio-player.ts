@@ -1,42 +1,266 @@
 import { convertFileSrc } from "@tauri-apps/api/core";
+import { getSettings, subscribeSettings } from "./settings";
+import { DifficultyFilters, NO_FILTERS, pitchPlaybackRate } from "./difficulty";
+import {
+  decodeAudioFile,
+  encodeWav,
+  getReversedSection,
+  reverseSection,
+} from "./audio-buffer";
+import { canPlayNatively, getDecodedUrl, recordFallback } from "./audio-format";
+import { TransitionPlan } from "./transition";
 
 export interface PlaybackState {
   isPlaying: boolean;
-  currentTime: number;
+  currentTime: number; // Position at the last state change; see subscribeProgress()
   duration: number;
   startOffset: number; // Where in the track we started
-  maxPlayTime: number; // Maximum seconds to play (30s default)
+  maxPlayTime: number; // Maximum seconds to play (excerpt length setting by default)
+  usesFallback: boolean; // Playing audio the backend decoded because the WebView couldn't
+  outputDeviceLost: boolean; // The chosen output device is gone; playing on the system default
 }
 
 export type PlaybackStateListener = (state: PlaybackState) => void;
 
+export type PlaybackProgressListener = (currentTime: number) => void;
+
+/**
+ * What the OS "now playing" widget shows
+ */
+export interface NowPlaying {
+  title: string;
+  artist: string;
+  album: string;
+}
+
+// Shown until the answer is revealed, so the widget doesn't give it away
+const MYSTERY_TRACK: NowPlaying = { title: "Mystery track", artist: "Déjà Cue", album: "" };
+
+/**
+ * An audio output the quiz can be sent to
+ */
+export interface OutputDevice {
+  id: string;
+  label: string;
+}
+
+// The system default output, as a sink ID
+export const DEFAULT_OUTPUT_DEVICE = "";
+
+// Pseudo-devices Chromium lists alongside the real outputs
+const ALIAS_DEVICE_IDS = new Set(["default", "communications"]);
+
+// AudioContext.setSinkId isn't in TypeScript's DOM types yet
+interface SinkableAudioContext extends AudioContext {
+  setSinkId?(sinkId: string): Promise<void>;
+}
+
+// Length of the fades at the start and end of an excerpt (seconds)
+const FADE_TIME = 0.08;
+// Time constant for moving to a new normalization gain (seconds)
+const GAIN_SMOOTHING = 0.2;
+// Cutoffs for the "bass only" and "highs only" difficulty filters (Hz)
+const LOW_PASS_FREQUENCY = 250;
+const HIGH_PASS_FREQUENCY = 4000;
+// Points in the scheduled crossfade curve
+const CROSSFADE_CURVE_POINTS = 64;
+// How far the incoming deck may drift before it is moved back into sync (seconds)
+const SYNC_TOLERANCE = 0.05;
+// A stop timer firing this close to the end of the window counts as on time (seconds)
+const STOP_TOLERANCE = 0.005;
+
+/**
+ * An audio element with its own gain stages. The player keeps two: one
+ * playing, and one that can buffer the next track in the background or
+ * play the incoming track of a transition.
+ */
+interface Deck {
+  audio: HTMLAudioElement;
+  levelGain: GainNode; // Loudness normalization
+  mixGain: GainNode; // Crossfader position
+  fadeGain: GainNode; // Fades at the edges of the play window
+  filePath: string | null; // Track loaded (or loading) on this deck
+  startOffset: number;
+  ready: Promise<void> | null; // Resolves once the deck is buffered at startOffset
+  loadToken: object | null; // Identifies the latest load, so superseded ones give up
+  reversed: boolean; // Playing a reversed copy of the track
+  mediaOffset: number; // Where the excerpt starts in the element's media (seconds)
+  duration: number; // Length of the whole track (seconds)
+  objectUrl: string | null; // Generated audio to release when the deck is cleared
+  usesFallback: boolean; // Playing audio decoded by the backend
+}
+
+/**
+ * What a deck's audio element should play
+ */
+interface DeckSource {
+  url: string;
+  mediaOffset: number;
+  duration: number | null; // Known up front for generated audio
+  decoded: boolean; // Served by the backend's fallback decoder
+  fallbackUrl: string | null; // Tried instead if the WebView can't decode url
+}
+
+/**
+ * A loaded transition: the active deck plays the outgoing track and the
+ * spare deck joins in with the incoming one
+ */
+interface Transition {
+  deck: Deck; // Deck playing the incoming track
+  crossfadeStart: number; // Seconds into the play window
+  crossfadeLength: number;
+  incomingRate: number; // Extra playback rate to match the outgoing tempo
+  loaded: boolean; // Both decks are buffered at their offsets
+  startTimer: number | null; // Starts the incoming deck when the crossfade begins
+}
+
+/**
+ * Crossfader level at a point in the crossfade (0 to 1).
+ * Equal-power curves keep the blend at a steady loudness.
+ */
+function crossfadeLevel(position: number, fadingIn: boolean): number {
+  const angle = (Math.max(0, Math.min(1, position)) * Math.PI) / 2;
+  return fadingIn ? Math.sin(angle) : Math.cos(angle);
+}
+
+function crossfadeCurve(from: number, fadingIn: boolean): Float32Array {
+  const curve = new Float32Array(CROSSFADE_CURVE_POINTS);
+  for (let i = 0; i < curve.length; i++) {
+    curve[i] = crossfadeLevel(from + ((1 - from) * i) / (curve.length - 1), fadingIn);
+  }
+  return curve;
+}
+
 /**
  * Audio player wrapper for quiz playback
- * Handles loading tracks, playing from random offsets, and limiting play time
+ * Handles loading tracks, playing from random offsets, and limiting play time.
+ * The audio element is routed through Web Audio so excerpts fade in and out,
+ * each track's level can be normalized, and difficulty filters can be applied.
+ * Transitions play two tracks at once, crossfading from one deck to the other.
+ *
+ * State listeners only hear about real changes (play, pause, load, seek...);
+ * the playing position is published separately, once per animation frame.
  */
 export class AudioPlayer {
-  private audio: HTMLAudioElement;
+  private context: AudioContext;
+  private filterInput: GainNode; // Where the decks join the shared processing chain
+  private toneFilter: BiquadFilterNode;
+  private monoMix: GainNode;
+  private filters: DifficultyFilters = NO_FILTERS;
+  private deck: Deck; // The deck being played
+  private spareDeck: Deck; // Used to preload the next track
+  private transition: Transition | null = null;
   private state: PlaybackState;
   private listeners: Set<PlaybackStateListener> = new Set();
-  private updateInterval: number | null = null;
+  private progressListeners: Set<PlaybackProgressListener> = new Set();
+  private progressFrame: number | null = null;
+  private stopTimer: number | null = null; // Pauses the element at the end of the window
+  private pendingPause: number | null = null;
+  private nextTrackHandler: (() => void) | null = null; // Media "next" key
+  private outputDeviceId = DEFAULT_OUTPUT_DEVICE; // Where the context is sending audio
+  private outputRouting: Promise<void> = Promise.resolve(); // Device changes run in turn
+  private unsubscribeSettings: () => void;
 
   constructor() {
-    this.audio = new Audio();
+    this.context = new AudioContext();
+    this.monoMix = this.context.createGain();
+    this.monoMix.channelInterpretation = "speakers";
+    this.monoMix.connect(this.context.destination);
+    this.toneFilter = this.context.createBiquadFilter();
+    this.toneFilter.connect(this.monoMix);
+    this.filterInput = this.context.createGain();
+    this.deck = this.createDeck();
+    this.spareDeck = this.createDeck();
+
     this.state = {
       isPlaying: false,
       currentTime: 0,
       duration: 0,
       startOffset: 0,
-      maxPlayTime: 30,
+      maxPlayTime: getSettings().excerptLength,
+      usesFallback: false,
+      outputDeviceLost: false,
+    };
+    this.applyFilters();
+    this.registerMediaSession();
+
+    navigator.mediaDevices?.addEventListener("devicechange", this.handleDeviceChange);
+    // Raised when the output the context renders to fails, e.g. it's unplugged
+    this.context.addEventListener("error", this.handleDeviceChange);
+    this.unsubscribeSettings = subscribeSettings(() => this.handleDeviceChange());
+    this.handleDeviceChange();
+  }
+
+  private createDeck(): Deck {
+    const audio = new Audio();
+    // Needed for Web Audio to read samples from the asset protocol
+    audio.crossOrigin = "anonymous";
+    audio.preload = "auto";
+    // Pitch shifts behave like a CDJ pitch fader: pitch and tempo move together
+    audio.preservesPitch = false;
+
+    const levelGain = this.context.createGain();
+    const mixGain = this.context.createGain();
+    const fadeGain = this.context.createGain();
+    fadeGain.gain.value = 0;
+    this.context
+      .createMediaElementSource(audio)
+      .connect(levelGain)
+      .connect(mixGain)
+      .connect(fadeGain)
+      .connect(this.filterInput);
+
+    const deck: Deck = {
+      audio,
+      levelGain,
+      mixGain,
+      fadeGain,
+      filePath: null,
+      startOffset: 0,
+      ready: null,
+      loadToken: null,
+      reversed: false,
+      mediaOffset: 0,
+      duration: 0,
+      objectUrl: null,
+      usesFallback: false,
     };
 
-    this.audio.addEventListener("play", () => this.handlePlay());
-    this.audio.addEventListener("pause", () => this.handlePause());
-    this.audio.addEventListener("ended", () => this.handleEnded());
-    this.audio.addEventListener("loadedmetadata", () =>
-      this.handleLoadedMetadata()
+    // Only the deck being played reports state
+    const whenActive = (handler: (e: Event) => void) => (e: Event) => {
+      if (deck === this.deck) handler(e);
+    };
+    audio.addEventListener("play", whenActive(() => this.handlePlay()));
+    audio.addEventListener("pause", whenActive(() => this.handlePause()));
+    audio.addEventListener("ended", whenActive(() => this.handleEnded()));
+    audio.addEventListener(
+      "loadedmetadata",
+      whenActive(() => this.handleLoadedMetadata())
     );
-    this.audio.addEventListener("error", (e) => this.handleError(e));
+    audio.addEventListener("error", whenActive((e) => this.handleError(e)));
+    return deck;
+  }
+
+  private get audio(): HTMLAudioElement {
+    return this.deck.audio;
+  }
+
+  /**
+   * Decks heard in the current play window
+   */
+  private get playingDecks(): Deck[] {
+    return this.transition ? [this.deck, this.transition.deck] : [this.deck];
+  }
+
+  private get isAudible(): boolean {
+    return this.state.isPlaying && this.pendingPause === null;
+  }
+
+  /**
+   * Seconds played since the start of the excerpt
+   */
+  private getElapsed(): number {
+    return this.audio.currentTime - this.deck.mediaOffset;
   }
 
   /**
@@ -48,137 +272,800 @@ export class AudioPlayer {
     return () => this.listeners.delete(listener);
   }
 
+  /**
+   * Subscribe to the playing position, updated every animation frame while
+   * playing and whenever the state changes
+   */
+  subscribeProgress(listener: PlaybackProgressListener): () => void {
+    this.progressListeners.add(listener);
+    listener(this.state.currentTime);
+    return () => this.progressListeners.delete(listener);
+  }
+
   private notifyListeners(): void {
     for (const listener of this.listeners) {
       listener({ ...this.state });
     }
+    this.notifyProgress();
+    this.updateMediaSession();
+  }
+
+  private notifyProgress(): void {
+    for (const listener of this.progressListeners) {
+      listener(this.state.currentTime);
+    }
   }
 
   private handlePlay(): void {
     this.state.isPlaying = true;
-    this.startUpdateLoop();
+    this.startProgressLoop();
     this.notifyListeners();
   }
 
   private handlePause(): void {
+    this.cancelPendingPause();
     this.state.isPlaying = false;
-    this.stopUpdateLoop();
+    this.stopPlaybackTimers();
+    this.syncIncoming();
     this.notifyListeners();
   }
 
   private handleEnded(): void {
     this.state.isPlaying = false;
-    this.stopUpdateLoop();
+    this.stopPlaybackTimers();
+    this.syncIncoming();
     this.notifyListeners();
   }
 
   private handleLoadedMetadata(): void {
-    this.state.duration = this.audio.duration;
+    this.state.duration = this.deck.duration || this.audio.duration;
     this.notifyListeners();
   }
 
   private handleError(e: Event): void {
     console.error("Audio playback error:", e);
     this.state.isPlaying = false;
-    this.stopUpdateLoop();
+    this.stopPlaybackTimers();
+    this.syncIncoming();
     this.notifyListeners();
   }
 
-  private startUpdateLoop(): void {
-    if (this.updateInterval) return;
+  /**
+   * Let media keys and headphone buttons control playback. "Previous" replays
+   * the excerpt; "next" is handed to whoever runs the quiz.
+   */
+  private registerMediaSession(): void {
+    if (!("mediaSession" in navigator)) return;
+
+    const handlers: [MediaSessionAction, MediaSessionActionHandler][] = [
+      ["play", () => this.play()],
+      ["pause", () => this.pause()],
+      ["stop", () => this.pause()],
+      ["previoustrack", () => {
+        this.seek(0);
+        this.play();
+      }],
+      ["seekto", (details) => {
+        if (details.seekTime !== undefined) this.seek(details.seekTime);
+      }],
+      ["nexttrack", () => this.nextTrackHandler?.()],
+    ];
+    for (const [action, handler] of handlers) {
+      try {
+        navigator.mediaSession.setActionHandler(action, handler);
+      } catch {
+        // Action not supported by this WebView
+      }
+    }
+  }
 
-    this.updateInterval = window.setInterval(() => {
-      const elapsed = this.audio.currentTime - this.state.startOffset;
-      this.state.currentTime = elapsed;
+  /**
+   * Keep the OS media controls in step with playback. The position covers the
+   * play window only, so the track's length isn't given away either.
+   */
+  private updateMediaSession(): void {
+    if (!("mediaSession" in navigator)) return;
 
-      // Check if we've exceeded max play time
-      if (elapsed >= this.state.maxPlayTime) {
-        this.pause();
+    const loaded = this.deck.filePath !== null;
+    navigator.mediaSession.playbackState = !loaded
+      ? "none"
+      : this.isAudible
+        ? "playing"
+        : "paused";
+    if (loaded && this.state.maxPlayTime > 0) {
+      try {
+        navigator.mediaSession.setPositionState({
+          duration: this.state.maxPlayTime,
+          position: Math.min(Math.max(0, this.state.currentTime), this.state.maxPlayTime),
+          playbackRate: 1,
+        });
+      } catch {
+        // Position state not supported by this WebView
       }
+    }
+  }
 
-      this.notifyListeners();
-    }, 100);
+  private publishNowPlaying(info: NowPlaying | null): void {
+    if (!("mediaSession" in navigator)) return;
+    navigator.mediaSession.metadata = info ? new MediaMetadata({ ...info }) : null;
   }
 
-  private stopUpdateLoop(): void {
-    if (this.updateInterval) {
-      clearInterval(this.updateInterval);
-      this.updateInterval = null;
+  /**
+   * Show a track in the OS media controls. Loading a new track goes back to
+   * a "Mystery track" placeholder until this is called again.
+   */
+  setNowPlaying(info: NowPlaying): void {
+    this.publishNowPlaying(info);
+  }
+
+  /**
+   * Set what the media "next track" key does, or null to ignore it
+   */
+  setNextTrackHandler(handler: (() => void) | null): void {
+    this.nextTrackHandler = handler;
+  }
+
+  /**
+   * Whether this WebView can send audio to a chosen output device. WKWebView,
+   * which the app runs in on macOS, has no setSinkId, so this is false there.
+   */
+  canSelectOutput(): boolean {
+    return typeof (this.context as SinkableAudioContext).setSinkId === "function";
+  }
+
+  /**
+   * List the connected audio outputs, not including the system default.
+   * Devices are only named once the WebView allows it; until then they are numbered.
+   */
+  async listOutputDevices(): Promise<OutputDevice[]> {
+    if (!navigator.mediaDevices?.enumerateDevices) return [];
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices
+      .filter((device) => device.kind === "audiooutput" && !ALIAS_DEVICE_IDS.has(device.deviceId))
+      .map((device, i) => ({ id: device.deviceId, label: device.label || `Output ${i + 1}` }));
+  }
+
+  // An arrow function, so it can be added and removed as an event listener
+  private handleDeviceChange = (): void => {
+    this.outputRouting = this.outputRouting.then(() => this.routeOutput());
+  };
+
+  /**
+   * Send audio to the output chosen in settings. If it has gone away the
+   * system default is used until it comes back, and playback pauses rather
+   * than carrying on out loud through the speakers.
+   */
+  private async routeOutput(): Promise<void> {
+    const context = this.context as SinkableAudioContext;
+    if (!context.setSinkId) return;
+
+    const preferred = getSettings().outputDeviceId;
+    let target = preferred;
+    if (preferred !== DEFAULT_OUTPUT_DEVICE) {
+      try {
+        const devices = await this.listOutputDevices();
+        if (!devices.some((device) => device.id === preferred)) {
+          target = DEFAULT_OUTPUT_DEVICE;
+        }
+      } catch (err) {
+        console.error("Failed to list audio outputs:", err);
+      }
+    }
+
+    if (target !== preferred) {
+      this.setOutputDeviceLost(true);
+    }
+    if (target !== this.outputDeviceId) {
+      try {
+        await context.setSinkId(target);
+        this.outputDeviceId = target;
+      } catch (err) {
+        console.error(`Failed to switch audio output to ${target || "the default"}:`, err);
+        this.setOutputDeviceLost(true);
+        await context.setSinkId(DEFAULT_OUTPUT_DEVICE).catch(() => {});
+        this.outputDeviceId = DEFAULT_OUTPUT_DEVICE;
+        return;
+      }
+    }
+    this.setOutputDeviceLost(target !== preferred);
+  }
+
+  private setOutputDeviceLost(lost: boolean): void {
+    if (lost === this.state.outputDeviceLost) return;
+    // Stop before the audio moves to the speakers
+    if (lost && this.isAudible) {
+      this.pause();
     }
+    this.state.outputDeviceLost = lost;
+    this.notifyListeners();
   }
 
   /**
-   * Load a track for playback
+   * Publish the position once per frame while playing. Frames don't run
+   * while the window is hidden, so nothing is done when nobody can see it.
+   */
+  private startProgressLoop(): void {
+    if (this.progressFrame !== null) return;
+
+    const tick = () => {
+      const elapsed = Math.min(this.getElapsed(), this.state.maxPlayTime);
+      if (elapsed !== this.state.currentTime) {
+        this.state.currentTime = elapsed;
+        this.notifyProgress();
+      }
+      this.progressFrame = requestAnimationFrame(tick);
+    };
+    this.progressFrame = requestAnimationFrame(tick);
+  }
+
+  /**
+   * Pause the element when the play window ends. The fade-out is scheduled on
+   * the audio clock to reach silence exactly at the boundary, so the timer only
+   * has to stop the element afterwards; if it fires early it waits for the rest.
+   */
+  private scheduleStop(): void {
+    this.clearStopTimer();
+    const remaining = this.state.maxPlayTime - this.getElapsed();
+    if (remaining <= STOP_TOLERANCE) {
+      this.stopAtBoundary();
+      return;
+    }
+    this.stopTimer = window.setTimeout(() => {
+      this.stopTimer = null;
+      this.scheduleStop();
+    }, (remaining / this.audio.playbackRate) * 1000);
+  }
+
+  /**
+   * Pause at the end of the play window and leave the position on the boundary
+   */
+  private stopAtBoundary(): void {
+    this.audio.pause();
+    this.audio.currentTime = this.deck.mediaOffset + this.state.maxPlayTime;
+    this.state.currentTime = this.state.maxPlayTime;
+  }
+
+  private clearStopTimer(): void {
+    if (this.stopTimer !== null) {
+      clearTimeout(this.stopTimer);
+      this.stopTimer = null;
+    }
+  }
+
+  private stopPlaybackTimers(): void {
+    this.clearStopTimer();
+    if (this.progressFrame !== null) {
+      cancelAnimationFrame(this.progressFrame);
+      this.progressFrame = null;
+    }
+    this.state.currentTime = Math.max(0, Math.min(this.getElapsed(), this.state.maxPlayTime));
+  }
+
+  /**
+   * Schedule the fade-out at the end of the play window, and optionally a
+   * fade-in from silence, starting now
+   */
+  private scheduleFades(fadeIn: boolean): void {
+    const now = this.context.currentTime;
+    const remaining = Math.max(0, this.state.maxPlayTime - this.getElapsed());
+    const endTime = now + remaining / this.audio.playbackRate;
+    const fadeOutStart = Math.max(now + (fadeIn ? FADE_TIME : 0), endTime - FADE_TIME);
+
+    for (const deck of this.playingDecks) {
+      const gain = deck.fadeGain.gain;
+      gain.cancelScheduledValues(now);
+      if (fadeIn) {
+        gain.setValueAtTime(0, now);
+        gain.linearRampToValueAtTime(1, Math.min(now + FADE_TIME, endTime));
+      } else {
+        gain.setValueAtTime(1, now);
+      }
+      gain.setValueAtTime(1, fadeOutStart);
+      gain.linearRampToValueAtTime(0, Math.max(fadeOutStart, endTime));
+    }
+    this.scheduleCrossfade();
+    this.scheduleStop();
+  }
+
+  /**
+   * Set the crossfader for the current position in a transition and, while
+   * playing, schedule the rest of the crossfade
+   */
+  private scheduleCrossfade(): void {
+    const transition = this.transition;
+    if (!transition) return;
+
+    const now = this.context.currentTime;
+    const { crossfadeStart, crossfadeLength } = transition;
+    const position = (this.getElapsed() - crossfadeStart) / crossfadeLength;
+    const from = Math.max(0, Math.min(1, position));
+    const delay = (Math.max(0, -position) * crossfadeLength) / this.audio.playbackRate;
+    const length = ((1 - from) * crossfadeLength) / this.audio.playbackRate;
+
+    for (const deck of this.playingDecks) {
+      const fadingIn = deck === transition.deck;
+      const gain = deck.mixGain.gain;
+      gain.cancelScheduledValues(now);
+      if (!this.isAudible || from >= 1 || delay > 0) {
+        gain.setValueAtTime(crossfadeLevel(from, fadingIn), now);
+      }
+      if (this.isAudible && from < 1) {
+        gain.setValueCurveAtTime(crossfadeCurve(from, fadingIn), now + delay, length);
+      }
+    }
+  }
+
+  /**
+   * Keep the incoming deck of a transition in step with the outgoing one:
+   * silent and waiting until the crossfade starts, then playing at the
+   * matching position while the outgoing deck plays
+   */
+  private syncIncoming(): void {
+    const transition = this.transition;
+    if (!transition?.loaded) return;
+    if (transition.startTimer !== null) {
+      clearTimeout(transition.startTimer);
+      transition.startTimer = null;
+    }
+
+    const incoming = transition.deck.audio;
+    const mixElapsed = this.getElapsed() - transition.crossfadeStart;
+    const position = transition.deck.mediaOffset + Math.max(0, mixElapsed) * transition.incomingRate;
+    if (Math.abs(incoming.currentTime - position) > SYNC_TOLERANCE) {
+      incoming.currentTime = position;
+    }
+
+    if (!this.state.isPlaying || mixElapsed < 0) {
+      incoming.pause();
+      if (this.state.isPlaying) {
+        transition.startTimer = window.setTimeout(
+          () => this.syncIncoming(),
+          (-mixElapsed / this.audio.playbackRate) * 1000
+        );
+      }
+      return;
+    }
+    incoming.play().catch((err) => console.error("Failed to play incoming track:", err));
+  }
+
+  private cancelPendingPause(): void {
+    if (this.pendingPause !== null) {
+      clearTimeout(this.pendingPause);
+      this.pendingPause = null;
+    }
+  }
+
+  /**
+   * Silence output immediately, e.g. before a jump or a source change
+   */
+  private silence(): void {
+    const now = this.context.currentTime;
+    for (const deck of this.playingDecks) {
+      deck.fadeGain.gain.cancelScheduledValues(now);
+      deck.fadeGain.gain.setValueAtTime(0, now);
+    }
+  }
+
+  /**
+   * Point a deck at a file and wait until it is buffered at the start offset.
+   * With reversed playback on, the deck plays a reversed copy instead.
+   */
+  private loadDeck(
+    deck: Deck,
+    filePath: string,
+    startOffset: number,
+    reversed: boolean = this.filters.reversed
+  ): Promise<void> {
+    const token = {};
+    deck.loadToken = token;
+    deck.filePath = filePath;
+    deck.startOffset = startOffset;
+    deck.reversed = reversed;
+    deck.duration = 0;
+    this.releaseObjectUrl(deck);
+
+    const source: Promise<DeckSource> = deck.reversed
+      ? this.createReversedSource(filePath, startOffset)
+      : Promise.resolve(this.createFileSource(filePath, startOffset));
+
+    deck.ready = source.then((resolved) => {
+      const isGenerated = resolved.url.startsWith("blob:");
+      if (deck.loadToken !== token) {
+        if (isGenerated) URL.revokeObjectURL(resolved.url);
+        throw new Error("Load cancelled");
+      }
+      if (isGenerated) deck.objectUrl = resolved.url;
+      return this.loadElement(deck, token, resolved);
+    });
+    return deck.ready;
+  }
+
+  /**
+   * Play a file directly, or through the backend's decoder if the WebView
+   * can't play its format. Files that look playable but fail to decode
+   * (e.g. ALAC inside M4A) switch to the decoder when loading fails.
+   */
+  private createFileSource(filePath: string, startOffset: number): DeckSource {
+    const decodedUrl = getDecodedUrl(filePath);
+    const isNative = canPlayNatively(filePath);
+    return {
+      // Convert local file path to Tauri asset URL
+      url: isNative ? convertFileSrc(filePath) : decodedUrl,
+      mediaOffset: startOffset,
+      duration: null,
+      decoded: !isNative,
+      fallbackUrl: isNative ? decodedUrl : null,
+    };
+  }
+
+  /**
+   * Load a deck's audio element and seek to the start of the excerpt
+   */
+  private loadElement(deck: Deck, token: object, source: DeckSource): Promise<void> {
+    const audio = deck.audio;
+    deck.mediaOffset = source.mediaOffset;
+    deck.duration = source.duration ?? 0;
+    deck.usesFallback = source.decoded;
+    audio.src = source.url;
+
+    return new Promise<void>((resolve, reject) => {
+      const cleanup = () => {
+        audio.removeEventListener("loadedmetadata", onLoaded);
+        audio.removeEventListener("seeked", onSeeked);
+        audio.removeEventListener("error", onError);
+      };
+      const isSuperseded = () => {
+        if (deck.loadToken === token) return false;
+        cleanup();
+        reject(new Error("Load cancelled"));
+        return true;
+      };
+      const onLoaded = () => {
+        if (isSuperseded()) return;
+        if (source.duration === null) {
+          deck.duration = audio.duration;
+        }
+        // Seek to start offset
+        audio.currentTime = source.mediaOffset;
+      };
+      const onSeeked = () => {
+        if (isSuperseded()) return;
+        cleanup();
+        if (source.decoded && deck.filePath) {
+          recordFallback(deck.filePath);
+        }
+        resolve();
+      };
+      const onError = () => {
+        if (isSuperseded()) return;
+        cleanup();
+        const code = audio.error?.code;
+        const isFormatError =
+          code === MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED || code === MediaError.MEDIA_ERR_DECODE;
+        if (isFormatError && source.fallbackUrl) {
+          resolve(
+            this.loadElement(deck, token, {
+              ...source,
+              url: source.fallbackUrl,
+              decoded: true,
+              fallbackUrl: null,
+            })
+          );
+          return;
+        }
+        reject(new Error("Failed to load audio"));
+      };
+      audio.addEventListener("loadedmetadata", onLoaded);
+      audio.addEventListener("seeked", onSeeked);
+      audio.addEventListener("error", onError);
+      audio.load();
+    });
+  }
+
+  /**
+   * Decode a track and render its reversed section (see getReversedSection)
+   * as a WAV file for the audio element
+   */
+  private async createReversedSource(filePath: string, startOffset: number): Promise<DeckSource> {
+    const buffer = await decodeAudioFile(filePath, this.context);
+    const { start, end } = getReversedSection(
+      startOffset,
+      buffer.duration,
+      getSettings().excerptLength
+    );
+    const wav = encodeWav(reverseSection(buffer, start, end), buffer.sampleRate);
+    return {
+      url: URL.createObjectURL(wav),
+      mediaOffset: 0,
+      duration: buffer.duration,
+      decoded: false,
+      fallbackUrl: null,
+    };
+  }
+
+  private releaseObjectUrl(deck: Deck): void {
+    if (deck.objectUrl) {
+      URL.revokeObjectURL(deck.objectUrl);
+      deck.objectUrl = null;
+    }
+  }
+
+  private clearDeck(deck: Deck): void {
+    deck.audio.pause();
+    deck.audio.removeAttribute("src");
+    deck.audio.load();
+    deck.filePath = null;
+    deck.ready = null;
+    deck.loadToken = null;
+    this.releaseObjectUrl(deck);
+  }
+
+  /**
+   * Load a track for playback. If the same excerpt was preloaded, the
+   * buffered deck is switched in instead of loading the file again.
    * @param filePath - Local file path to the audio file
    * @param startOffset - Where to start playing (in seconds)
-   * @param maxPlayTime - Maximum time to play (default 30s)
+   * @param maxPlayTime - Maximum time to play (default from the excerpt length setting)
    */
   async load(
     filePath: string,
     startOffset: number = 0,
-    maxPlayTime: number = 30
+    maxPlayTime: number = getSettings().excerptLength
   ): Promise<void> {
     this.stop();
 
-    // Convert local file path to Tauri asset URL
-    const assetUrl = convertFileSrc(filePath);
-
     this.state = {
       isPlaying: false,
       currentTime: 0,
       duration: 0,
       startOffset,
       maxPlayTime,
+      usesFallback: false,
+      outputDeviceLost: this.state.outputDeviceLost,
     };
 
-    this.audio.src = assetUrl;
+    const spare = this.spareDeck;
+    if (
+      spare.ready &&
+      spare.filePath === filePath &&
+      spare.startOffset === startOffset &&
+      spare.reversed === this.filters.reversed
+    ) {
+      this.spareDeck = this.deck;
+      this.deck = spare;
+      try {
+        await spare.ready;
+      } finally {
+        spare.ready = null;
+      }
+    } else {
+      this.cancelPreload();
+      await this.loadDeck(this.deck, filePath, startOffset);
+    }
 
-    // Wait for metadata to load
-    await new Promise<void>((resolve, reject) => {
-      const onLoaded = () => {
-        this.audio.removeEventListener("loadedmetadata", onLoaded);
-        this.audio.removeEventListener("error", onError);
-        resolve();
-      };
-      const onError = () => {
-        this.audio.removeEventListener("loadedmetadata", onLoaded);
-        this.audio.removeEventListener("error", onError);
-        reject(new Error("Failed to load audio"));
-      };
-      this.audio.addEventListener("loadedmetadata", onLoaded);
-      this.audio.addEventListener("error", onError);
-      this.audio.load();
+    this.setNormalizationGain(1);
+    this.state.duration = this.deck.duration;
+    this.state.usesFallback = this.deck.usesFallback;
+    this.publishNowPlaying(MYSTERY_TRACK);
+    this.notifyListeners();
+  }
+
+  /**
+   * Load two tracks to play as a transition: the outgoing track from its
+   * offset, crossfading into the incoming track as planned. The play window
+   * covers the whole transition. Reversed playback doesn't apply.
+   * @param outgoingPath - Local file path of the track being mixed out
+   * @param incomingPath - Local file path of the track being mixed in
+   * @param plan - Offsets and timings of the blend
+   */
+  async loadTransition(
+    outgoingPath: string,
+    incomingPath: string,
+    plan: TransitionPlan
+  ): Promise<void> {
+    this.stop();
+    this.cancelPreload();
+
+    this.state = {
+      isPlaying: false,
+      currentTime: 0,
+      duration: 0,
+      startOffset: plan.outgoingOffset,
+      maxPlayTime: plan.length,
+      usesFallback: false,
+      outputDeviceLost: this.state.outputDeviceLost,
+    };
+    this.transition = {
+      deck: this.spareDeck,
+      crossfadeStart: plan.crossfadeStart,
+      crossfadeLength: plan.crossfadeLength,
+      incomingRate: plan.incomingRate,
+      loaded: false,
+      startTimer: null,
+    };
+    this.applyPlaybackRates();
+
+    const transition = this.transition;
+    await Promise.all([
+      this.loadDeck(this.deck, outgoingPath, plan.outgoingOffset, false),
+      this.loadDeck(transition.deck, incomingPath, plan.incomingOffset, false),
+    ]);
+
+    transition.loaded = true;
+    this.setNormalizationGain(1);
+    this.setIncomingNormalizationGain(1);
+    this.state.duration = this.deck.duration;
+    this.state.usesFallback = this.playingDecks.some((deck) => deck.usesFallback);
+    this.scheduleCrossfade();
+    this.publishNowPlaying(MYSTERY_TRACK);
+    this.notifyListeners();
+  }
+
+  /**
+   * Buffer a track on the spare deck so a later load() of the same file and
+   * offset can start straight away. Replaces any earlier preload.
+   * Failures are ignored here and reported by load() if the track is used.
+   * @param filePath - Local file path to the audio file
+   * @param startOffset - Where the excerpt will start (in seconds)
+   */
+  preload(filePath: string, startOffset: number = 0): void {
+    // The spare deck is busy with the incoming track of a transition
+    if (this.transition) return;
+    this.loadDeck(this.spareDeck, filePath, startOffset).catch(() => {
+      // The rejected ready promise is kept for load() to report
     });
+  }
 
-    // Seek to start offset
-    this.audio.currentTime = startOffset;
-    this.state.duration = this.audio.duration;
+  /**
+   * Drop any preloaded track
+   */
+  cancelPreload(): void {
+    if (this.spareDeck.filePath !== null) {
+      this.clearDeck(this.spareDeck);
+    }
+  }
+
+  /**
+   * Seconds the current track can play from its start offset. A reversed copy
+   * only covers its prepared section; other tracks aren't limited.
+   */
+  getAvailablePlayTime(): number {
+    const length = this.deck.audio.duration;
+    return this.deck.reversed && Number.isFinite(length) ? length : Infinity;
+  }
+
+  /**
+   * Extend (or shorten) the play window without reloading the track.
+   * The window still starts at the same offset.
+   * @param maxPlayTime - New maximum time to play (in seconds)
+   */
+  setMaxPlayTime(maxPlayTime: number): void {
+    this.state.maxPlayTime = Math.min(maxPlayTime, this.getAvailablePlayTime());
+    if (this.isAudible) {
+      this.scheduleFades(false);
+    }
     this.notifyListeners();
   }
 
   /**
-   * Start or resume playback
+   * Set the difficulty filters. Tone, pitch and mono apply straight away;
+   * reversed playback applies from the next track loaded.
+   */
+  setFilters(filters: DifficultyFilters): void {
+    this.filters = filters;
+    this.applyFilters();
+  }
+
+  private applyFilters(): void {
+    const { tone, mono } = this.filters;
+
+    this.filterInput.disconnect();
+    if (tone === "off") {
+      this.filterInput.connect(this.monoMix);
+    } else {
+      this.toneFilter.type = tone === "low-pass" ? "lowpass" : "highpass";
+      this.toneFilter.frequency.value =
+        tone === "low-pass" ? LOW_PASS_FREQUENCY : HIGH_PASS_FREQUENCY;
+      this.filterInput.connect(this.toneFilter);
+    }
+
+    // A single explicit channel makes Web Audio downmix to mono
+    this.monoMix.channelCount = mono ? 1 : 2;
+    this.monoMix.channelCountMode = mono ? "explicit" : "max";
+
+    this.applyPlaybackRates();
+    if (this.isAudible) {
+      // The excerpt now ends at a different time
+      this.scheduleFades(false);
+      this.syncIncoming();
+    }
+  }
+
+  private applyPlaybackRates(): void {
+    const rate = pitchPlaybackRate(this.filters.pitch);
+    for (const deck of [this.deck, this.spareDeck]) {
+      // The incoming track of a transition is also nudged to the outgoing tempo
+      const deckRate =
+        deck === this.transition?.deck ? rate * this.transition.incomingRate : rate;
+      deck.audio.defaultPlaybackRate = deckRate;
+      deck.audio.playbackRate = deckRate;
+    }
+  }
+
+  /**
+   * Set the gain applied to bring this track to a common loudness.
+   * Changes are smoothed so a late measurement doesn't jump in level.
+   * @param gain - Linear gain (1 leaves the track unchanged)
+   */
+  setNormalizationGain(gain: number): void {
+    this.setLevel(this.deck, gain);
+  }
+
+  /**
+   * Set the normalization gain for the incoming track of a transition
+   * @param gain - Linear gain (1 leaves the track unchanged)
+   */
+  setIncomingNormalizationGain(gain: number): void {
+    if (this.transition) {
+      this.setLevel(this.transition.deck, gain);
+    }
+  }
+
+  private setLevel(deck: Deck, gain: number): void {
+    const param = deck.levelGain.gain;
+    const now = this.context.currentTime;
+    param.cancelScheduledValues(now);
+    if (this.state.isPlaying) {
+      param.setTargetAtTime(gain, now, GAIN_SMOOTHING);
+    } else {
+      param.setValueAtTime(gain, now);
+    }
+  }
+
+  /**
+   * Start or resume playback, fading in
    */
   async play(): Promise<void> {
+    this.cancelPendingPause();
     try {
+      await this.context.resume();
+      this.silence();
       await this.audio.play();
+      this.scheduleFades(true);
+      this.syncIncoming();
     } catch (err) {
       console.error("Failed to play:", err);
     }
   }
 
   /**
-   * Pause playback
+   * Pause playback, fading out first
    */
   pause(): void {
-    this.audio.pause();
+    if (!this.state.isPlaying || this.pendingPause !== null) {
+      this.audio.pause();
+      return;
+    }
+
+    const now = this.context.currentTime;
+    for (const deck of this.playingDecks) {
+      const gain = deck.fadeGain.gain;
+      gain.cancelScheduledValues(now);
+      gain.setValueAtTime(gain.value, now);
+      gain.linearRampToValueAtTime(0, now + FADE_TIME);
+    }
+    this.clearStopTimer();
+    this.pendingPause = window.setTimeout(() => {
+      this.pendingPause = null;
+      this.audio.pause();
+    }, FADE_TIME * 1000);
   }
 
   /**
    * Toggle play/pause
    */
   async toggle(): Promise<void> {
-    if (this.state.isPlaying) {
+    if (this.isAudible) {
       this.pause();
     } else {
       await this.play();
@@ -191,8 +1078,18 @@ export class AudioPlayer {
    */
   seek(time: number): void {
     const clampedTime = Math.max(0, Math.min(time, this.state.maxPlayTime));
-    this.audio.currentTime = this.state.startOffset + clampedTime;
+    const isAudible = this.isAudible;
+    if (isAudible) {
+      this.silence();
+    }
+    this.audio.currentTime = this.deck.mediaOffset + clampedTime;
     this.state.currentTime = clampedTime;
+    this.syncIncoming();
+    if (isAudible) {
+      this.scheduleFades(true);
+    } else {
+      this.scheduleCrossfade();
+    }
     this.notifyListeners();
   }
 
@@ -200,18 +1097,43 @@ export class AudioPlayer {
    * Stop playback and reset
    */
   stop(): void {
-    this.pause();
-    this.audio.src = "";
+    this.cancelPendingPause();
+    this.silence();
+    this.clearTransition();
+    this.clearDeck(this.deck);
     this.state = {
       isPlaying: false,
       currentTime: 0,
       duration: 0,
       startOffset: 0,
-      maxPlayTime: 30,
+      maxPlayTime: getSettings().excerptLength,
+      usesFallback: false,
+      outputDeviceLost: this.state.outputDeviceLost,
     };
+    this.publishNowPlaying(null);
     this.notifyListeners();
   }
 
+  /**
+   * Drop a loaded transition, freeing the spare deck and centring the crossfader
+   */
+  private clearTransition(): void {
+    const transition = this.transition;
+    if (!transition) return;
+    if (transition.startTimer !== null) {
+      clearTimeout(transition.startTimer);
+    }
+    this.transition = null;
+    this.clearDeck(transition.deck);
+
+    const now = this.context.currentTime;
+    for (const deck of [this.deck, transition.deck]) {
+      deck.mixGain.gain.cancelScheduledValues(now);
+      deck.mixGain.gain.setValueAtTime(1, now);
+    }
+    this.applyPlaybackRates();
+  }
+
   /**
    * Get current playback state
    */
@@ -230,10 +1152,21 @@ export class AudioPlayer {
    * Clean up resources
    */
   destroy(): void {
-    this.stopUpdateLoop();
-    this.audio.pause();
-    this.audio.src = "";
+    this.stopPlaybackTimers();
+    this.cancelPendingPause();
+    this.clearTransition();
+    this.clearDeck(this.deck);
+    this.clearDeck(this.spareDeck);
+    this.publishNowPlaying(null);
+    this.nextTrackHandler = null;
+    navigator.mediaDevices?.removeEventListener("devicechange", this.handleDeviceChange);
+    this.unsubscribeSettings();
     this.listeners.clear();
+    this.progressListeners.clear();
+    this.context.close();
+    if (playerInstance === this) {
+      playerInstance = null;
+    }
   }
 }
 
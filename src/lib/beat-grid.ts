@@ -0,0 +1,88 @@
+import { BeatGridMarker } from "./rekordbox-parser";
+
+export type BeatSnap = "off" | "downbeat" | "phrase-16" | "phrase-32";
+
+const BARS_PER_SNAP: Record<Exclude<BeatSnap, "off">, number> = {
+  downbeat: 1,
+  "phrase-16": 16,
+  "phrase-32": 32,
+};
+
+/**
+ * A grid marker with the number of beats between the track's first downbeat
+ * and the marker, so positions can be compared across tempo changes
+ */
+interface IndexedMarker extends BeatGridMarker {
+  beatIndex: number;
+}
+
+/**
+ * Index each marker by its beat count from the first downbeat.
+ * The first marker's beat number gives its position in the bar.
+ */
+function indexMarkers(grid: BeatGridMarker[]): IndexedMarker[] {
+  const indexed: IndexedMarker[] = [];
+  for (const marker of grid) {
+    const previous = indexed[indexed.length - 1];
+    let beatIndex: number;
+    if (!previous) {
+      beatIndex = marker.beat - 1;
+    } else {
+      const beatLength = 60 / previous.bpm;
+      beatIndex = previous.beatIndex + Math.round((marker.start - previous.start) / beatLength);
+    }
+    indexed.push({ ...marker, beatIndex });
+  }
+  return indexed;
+}
+
+/**
+ * Fractional beat index of a time in seconds
+ */
+function timeToBeat(markers: IndexedMarker[], time: number): number {
+  let marker = markers[0];
+  for (const candidate of markers) {
+    if (candidate.start > time) break;
+    marker = candidate;
+  }
+  return marker.beatIndex + (time - marker.start) * (marker.bpm / 60);
+}
+
+/**
+ * Time in seconds of a beat index
+ */
+function beatToTime(markers: IndexedMarker[], beat: number): number {
+  let marker = markers[0];
+  for (const candidate of markers) {
+    if (candidate.beatIndex > beat) break;
+    marker = candidate;
+  }
+  return marker.start + (beat - marker.beatIndex) * (60 / marker.bpm);
+}
+
+/**
+ * Move a time to the nearest downbeat or phrase boundary on the beat grid.
+ * Phrases are counted from the first downbeat of the track.
+ * Returns the time unchanged when snapping is off or the track has no grid.
+ */
+export function snapToGrid(
+  time: number,
+  grid: BeatGridMarker[] | undefined,
+  snap: BeatSnap,
+  duration: number
+): number {
+  if (snap === "off" || !grid || grid.length === 0) return time;
+
+  const markers = indexMarkers(grid);
+  const meter = markers[0].meter || 4;
+  const unit = meter * BARS_PER_SNAP[snap];
+
+  const beat = timeToBeat(markers, time);
+  let snapped = Math.round(beat / unit) * unit;
+  // Stay within the track
+  if (snapped < 0) snapped += unit;
+  if (duration > 0 && beatToTime(markers, snapped) >= duration) snapped -= unit;
+
+  const snappedTime = beatToTime(markers, snapped);
+  return snappedTime >= 0 ? snappedTime : time;
+}
@@ -1,5 +1,33 @@
 import { Command } from "@tauri-apps/plugin-shell";
-import type { RekordboxLibrary, Track, PlaylistNode } from "./rekordbox-parser";
+import { XMLParser } from "fast-xml-parser";
+import type {
+  RekordboxLibrary,
+  Track,
+  PlaylistNode,
+  CuePoint,
+  BeatGridMarker,
+  TrackColour,
+} from "./rekordbox-parser";
+import {
+  DateField,
+  DateOperator,
+  NUMBER_OPERATORS,
+  NumberField,
+  RuleGroup,
+  TEXT_OPERATORS,
+  TIME_UNITS,
+  TextField,
+  TrackRule,
+  findMatchingTracks,
+  isOneOf,
+} from "./track-rules";
+
+interface DatabaseCue {
+  name: string;
+  start: number;
+  end: number | null;
+  num: number;
+}
 
 interface DatabaseTrack {
   id: string;
@@ -8,6 +36,24 @@ interface DatabaseTrack {
   album: string;
   location: string;
   duration: number | null;
+  // Missing values are null; the reader already converts to the app's units
+  bpm: number | null;
+  key: string | null;
+  genre: string | null;
+  mixName: string | null;
+  remixer: string | null;
+  composer: string | null;
+  label: string | null;
+  year: number | null;
+  rating: number | null;
+  colour: TrackColour | null;
+  comments: string | null;
+  dateAdded: string | null;
+  playCount: number | null;
+  bitrate: number | null;
+  kind: string | null;
+  cues?: DatabaseCue[];
+  beatGrid?: BeatGridMarker[]; // Already in the app's format
 }
 
 interface DatabasePlaylistNode {
@@ -16,6 +62,7 @@ interface DatabasePlaylistNode {
   children?: DatabasePlaylistNode[];
   trackIds?: string[];
   isSmartPlaylist?: boolean;
+  smartList?: string | null; // Rekordbox's rule definition, as XML
 }
 
 interface DatabaseOutput {
@@ -24,16 +71,160 @@ interface DatabaseOutput {
   playlists: DatabasePlaylistNode;
 }
 
+// Smart playlist properties, by the PropertyName Rekordbox stores (pyrekordbox's
+// smartlist.Property). Others, e.g. myTag or albumArtist, can't be evaluated.
+// tools/rekordbox-reader/fixtures/smart-lists.json has a parsed sample of each.
+const SMART_TEXT_FIELDS: Record<string, TextField> = {
+  name: "title",
+  artist: "artist",
+  album: "album",
+  genre: "genre",
+  key: "key",
+  label: "label",
+  remixer: "remixer",
+  mixName: "mixName",
+  comments: "comments",
+};
+const SMART_NUMBER_FIELDS: Record<string, NumberField> = {
+  bpm: "bpm",
+  rating: "rating",
+  counter: "playCount",
+  duration: "duration",
+  year: "year",
+};
+const SMART_DATE_FIELDS: Record<string, DateField> = {
+  dateCreated: "dateAdded",
+};
+
+// Smart playlist condition operators, as Rekordbox numbers them
+const SMART_OPERATORS: Record<string, string> = {
+  "1": "is",
+  "2": "is-not",
+  "3": "greater",
+  "4": "less",
+  "5": "between",
+  "6": "in-last",
+  "7": "not-in-last",
+  "8": "contains",
+  "9": "not-contains",
+  "10": "starts-with",
+  "11": "ends-with",
+};
+
+// Date conditions share the number operators; the app names them for dates
+const SMART_DATE_OPERATORS: Record<string, DateOperator> = {
+  is: "is",
+  "is-not": "is-not",
+  greater: "after",
+  less: "before",
+  between: "between",
+};
+
+/**
+ * Read one CONDITION of a smart playlist, or null if it uses a property or
+ * operator the app can't evaluate
+ */
+function parseSmartCondition(condition: Record<string, string>): TrackRule | null {
+  const property = condition["@_PropertyName"] ?? "";
+  const operator = SMART_OPERATORS[condition["@_Operator"] ?? ""];
+  const left = condition["@_ValueLeft"] ?? "";
+  const right = condition["@_ValueRight"] ?? "";
+  if (!operator) return null;
+
+  const textField = SMART_TEXT_FIELDS[property];
+  if (textField) {
+    if (!isOneOf(TEXT_OPERATORS, operator)) return null;
+    return { type: "text", field: textField, operator, value: left };
+  }
+
+  const numberField = SMART_NUMBER_FIELDS[property];
+  if (numberField) {
+    const value = Number(left);
+    const to = operator === "between" ? Number(right) : undefined;
+    if (!isOneOf(NUMBER_OPERATORS, operator) || !Number.isFinite(value)) return null;
+    if (to !== undefined && !Number.isFinite(to)) return null;
+    return { type: "number", field: numberField, operator, value, to };
+  }
+
+  const dateField = SMART_DATE_FIELDS[property];
+  if (dateField) {
+    if (operator === "in-last" || operator === "not-in-last") {
+      const amount = Number(left);
+      const unit = condition["@_ValueUnit"] ?? "";
+      if (!Number.isFinite(amount) || !isOneOf(TIME_UNITS, unit)) return null;
+      return { type: "recent", field: dateField, operator, amount, unit };
+    }
+    const dateOperator = SMART_DATE_OPERATORS[operator];
+    if (!dateOperator) return null;
+    return {
+      type: "date",
+      field: dateField,
+      operator: dateOperator,
+      value: left,
+      to: operator === "between" ? right : undefined,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Parse a smart playlist's rule definition, e.g.
+ * <NODE LogicalOperator="1"><CONDITION PropertyName="genre" Operator="1" ValueLeft="House" .../></NODE>
+ * Returns null if any condition can't be evaluated: a partly applied rule
+ * would give the wrong tracks.
+ */
+export function parseSmartList(smartList: string): RuleGroup | null {
+  let parsed;
+  try {
+    parsed = new XMLParser({
+      ignoreAttributes: false,
+      attributeNamePrefix: "@_",
+      isArray: (name) => name === "CONDITION",
+    }).parse(smartList);
+  } catch {
+    return null;
+  }
+
+  const node = parsed?.["NODE"];
+  if (!node) return null;
+  const rules: TrackRule[] = [];
+  for (const condition of node["CONDITION"] ?? []) {
+    const rule = parseSmartCondition(condition);
+    if (!rule) return null;
+    rules.push(rule);
+  }
+  return { type: "group", match: String(node["@_LogicalOperator"]) === "2" ? "any" : "all", rules };
+}
+
+/**
+ * Convert database cues to the app's CuePoint format, sorted by position
+ */
+function convertCues(cues: DatabaseCue[] | undefined): CuePoint[] | undefined {
+  if (!cues || cues.length === 0) return undefined;
+  return cues
+    .map((cue) => ({
+      name: cue.name,
+      start: cue.start,
+      end: cue.end ?? undefined,
+      num: cue.num,
+    }))
+    .sort((a, b) => a.start - b.start);
+}
+
 /**
- * Convert a database playlist node to the app's PlaylistNode format
+ * Convert a database playlist node to the app's PlaylistNode format.
+ * Smart playlists get their tracks by evaluating their rules.
  */
-function convertPlaylistNode(node: DatabasePlaylistNode): PlaylistNode {
+function convertPlaylistNode(node: DatabasePlaylistNode, tracks: Map<string, Track>): PlaylistNode {
+  const smartRule = node.smartList ? parseSmartList(node.smartList) ?? undefined : undefined;
   return {
     name: node.name,
     type: node.type,
-    children: (node.children || []).map(convertPlaylistNode),
-    trackIds: node.trackIds || [],
+    children: (node.children || []).map((child) => convertPlaylistNode(child, tracks)),
+    trackIds: smartRule ? findMatchingTracks(smartRule, tracks.values()) : node.trackIds || [],
     isSmartPlaylist: node.isSmartPlaylist,
+    smartRule,
   };
 }
 
@@ -114,12 +305,29 @@ export async function readRekordboxDatabase(): Promise<RekordboxLibrary> {
       album: dbTrack.album,
       location: dbTrack.location,
       duration: dbTrack.duration ?? 0,
+      bpm: dbTrack.bpm ?? undefined,
+      key: dbTrack.key ?? undefined,
+      genre: dbTrack.genre ?? undefined,
+      mixName: dbTrack.mixName ?? undefined,
+      remixer: dbTrack.remixer ?? undefined,
+      composer: dbTrack.composer ?? undefined,
+      label: dbTrack.label ?? undefined,
+      year: dbTrack.year ?? undefined,
+      rating: dbTrack.rating ?? undefined,
+      colour: dbTrack.colour ?? undefined,
+      comments: dbTrack.comments ?? undefined,
+      dateAdded: dbTrack.dateAdded ?? undefined,
+      playCount: dbTrack.playCount ?? undefined,
+      bitrate: dbTrack.bitrate ?? undefined,
+      kind: dbTrack.kind ?? undefined,
+      cues: convertCues(dbTrack.cues),
+      beatGrid: dbTrack.beatGrid && dbTrack.beatGrid.length > 0 ? dbTrack.beatGrid : undefined,
     };
     tracks.set(track.id, track);
   }
 
   // Convert playlists to the app's format
-  const playlists = convertPlaylistNode(output.playlists);
+  const playlists = convertPlaylistNode(output.playlists, tracks);
 
   return { tracks, playlists };
 }
@@ -0,0 +1,73 @@
+export type ToneFilter = "off" | "low-pass" | "high-pass";
+
+export type PitchShift = "off" | "down" | "up";
+
+/**
+ * Audio processing that makes tracks harder to recognise on purpose
+ */
+export interface DifficultyFilters {
+  tone: ToneFilter; // Hear only the bassline, or only the hats
+  pitch: PitchShift; // Pitch and tempo moved together, like a CDJ pitch fader
+  mono: boolean; // Collapse the stereo image
+  reversed: boolean; // Play the excerpt backwards
+}
+
+export const NO_FILTERS: DifficultyFilters = {
+  tone: "off",
+  pitch: "off",
+  mono: false,
+  reversed: false,
+};
+
+// Pitch fader travel for the pitch shift filter (percent)
+export const PITCH_SHIFT_PERCENT = 8;
+
+// Score multiplier for each filter; filters combine by multiplying
+const TONE_MULTIPLIERS: Record<ToneFilter, number> = {
+  off: 1,
+  "low-pass": 1.3,
+  "high-pass": 1.3,
+};
+const PITCH_MULTIPLIER = 1.2;
+const MONO_MULTIPLIER = 1.1;
+const REVERSED_MULTIPLIER = 1.5;
+
+const TONE_LABELS: Record<ToneFilter, string> = {
+  off: "",
+  "low-pass": "Bass only",
+  "high-pass": "Highs only",
+};
+
+/**
+ * Playback rate for a pitch shift (1 is unchanged)
+ */
+export function pitchPlaybackRate(pitch: PitchShift): number {
+  if (pitch === "off") return 1;
+  const percent = pitch === "up" ? PITCH_SHIFT_PERCENT : -PITCH_SHIFT_PERCENT;
+  return 1 + percent / 100;
+}
+
+/**
+ * How much more a round is worth with these filters on
+ */
+export function difficultyMultiplier(filters: DifficultyFilters): number {
+  let multiplier = TONE_MULTIPLIERS[filters.tone];
+  if (filters.pitch !== "off") multiplier *= PITCH_MULTIPLIER;
+  if (filters.mono) multiplier *= MONO_MULTIPLIER;
+  if (filters.reversed) multiplier *= REVERSED_MULTIPLIER;
+  return multiplier;
+}
+
+/**
+ * Short labels for the active filters, e.g. ["Bass only", "+8%", "Reversed"]
+ */
+export function describeFilters(filters: DifficultyFilters): string[] {
+  const labels: string[] = [];
+  if (filters.tone !== "off") labels.push(TONE_LABELS[filters.tone]);
+  if (filters.pitch !== "off") {
+    labels.push(`${filters.pitch === "up" ? "+" : "−"}${PITCH_SHIFT_PERCENT}%`);
+  }
+  if (filters.mono) labels.push("Mono");
+  if (filters.reversed) labels.push("Reversed");
+  return labels;
+}
@@ -0,0 +1,98 @@
+import { Track } from "./rekordbox-parser";
+
+/**
+ * Normalize a string for loose equality checks (case and surrounding whitespace)
+ */
+function normalize(value: string | undefined): string {
+  return (value ?? "").trim().toLowerCase();
+}
+
+/**
+ * Two tracks that share a title and artist would be indistinguishable as choices
+ * (e.g. the same song imported twice, or a radio edit next to the original)
+ */
+function looksLikeSameSong(a: Track, b: Track): boolean {
+  return normalize(a.name) === normalize(b.name) &&
+    normalize(a.artist) === normalize(b.artist);
+}
+
+/**
+ * Score how confusable a candidate is with the answer. Higher is harder.
+ */
+function similarityScore(answer: Track, candidate: Track): number {
+  let score = 0;
+
+  if (normalize(answer.artist) && normalize(answer.artist) === normalize(candidate.artist)) {
+    score += 3;
+  }
+
+  if (normalize(answer.genre) && normalize(answer.genre) === normalize(candidate.genre)) {
+    score += 2;
+  }
+
+  if (answer.bpm && candidate.bpm) {
+    const bpmDiff = Math.abs(answer.bpm - candidate.bpm);
+    if (bpmDiff <= 3) {
+      score += 2;
+    } else if (bpmDiff <= 6) {
+      score += 1;
+    }
+  }
+
+  return score;
+}
+
+/**
+ * Pick "hard" wrong answers for a multiple-choice round.
+ * Candidates from the active pool that share the answer's artist or genre, or sit
+ * close to its BPM, are preferred. A little randomness keeps equally-scored
+ * candidates from always appearing in the same order.
+ * Falls back to the whole library when the pool is too small.
+ */
+export function pickDistractors(
+  answer: Track,
+  poolIds: string[],
+  tracks: Map<string, Track>,
+  count: number = 3
+): Track[] {
+  const pick = (ids: Iterable<string>, exclude: Track[]): Track[] => {
+    const scored: { track: Track; score: number }[] = [];
+    for (const id of ids) {
+      const candidate = tracks.get(id);
+      if (!candidate || candidate.id === answer.id) continue;
+      if (looksLikeSameSong(answer, candidate)) continue;
+      if (exclude.some((t) => t.id === candidate.id)) continue;
+      scored.push({
+        track: candidate,
+        score: similarityScore(answer, candidate) + Math.random() * 1.5,
+      });
+    }
+    scored.sort((a, b) => b.score - a.score);
+
+    const picked: Track[] = [];
+    for (const { track } of scored) {
+      if (picked.length + exclude.length >= count) break;
+      // Don't offer two choices that look identical to each other
+      if ([...exclude, ...picked].some((t) => looksLikeSameSong(t, track))) continue;
+      picked.push(track);
+    }
+    return picked;
+  };
+
+  const distractors = pick(poolIds, []);
+  if (distractors.length < count) {
+    distractors.push(...pick(tracks.keys(), distractors));
+  }
+  return distractors;
+}
+
+/**
+ * Shuffle an array in place (Fisher-Yates) and return it
+ */
+export function shuffle<T>(items: T[]): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
@@ -0,0 +1,66 @@
+import { Track, CuePoint } from "./rekordbox-parser";
+import { BeatSnap, snapToGrid } from "./beat-grid";
+
+export type StartPointStrategy = "random" | "cues";
+
+export interface StartPointOptions {
+  strategy: StartPointStrategy;
+  snap: BeatSnap;
+  windowStart: number; // Earliest random start, as a fraction of the track
+  windowEnd: number; // Latest random start, as a fraction of the track
+}
+
+// Cues closer than this to the end of the track leave too little to hear (seconds)
+const MIN_TIME_AFTER_CUE = 10;
+
+/**
+ * Calculate a random start point within a window of the track
+ * (by default the middle 50%, avoiding intros and outros)
+ */
+export function getRandomStartPoint(
+  duration: number,
+  windowStart: number = 0.25,
+  windowEnd: number = 0.75
+): number {
+  const startRange = duration * windowStart;
+  const endRange = duration * windowEnd;
+  const range = endRange - startRange;
+
+  return startRange + Math.random() * range;
+}
+
+/**
+ * Pick an excerpt start from the track's cues: the first cue named like a drop,
+ * otherwise a random hot cue, otherwise a random memory cue.
+ * Returns null when the track has no usable cues.
+ */
+function getCueStartPoint(track: Track): number | null {
+  const usable = (track.cues ?? []).filter(
+    (cue) => track.duration <= 0 || cue.start <= track.duration - MIN_TIME_AFTER_CUE
+  );
+  if (usable.length === 0) return null;
+
+  const drop = usable.find((cue) => /\bdrop\b/i.test(cue.name));
+  if (drop) return drop.start;
+
+  const randomCue = (cues: CuePoint[]) => cues[Math.floor(Math.random() * cues.length)];
+
+  const hotCues = usable.filter((cue) => cue.num >= 0);
+  if (hotCues.length > 0) return randomCue(hotCues).start;
+
+  return randomCue(usable).start;
+}
+
+/**
+ * Choose where in the track the excerpt starts.
+ * The cue strategy falls back to a random point when a track has no cues.
+ * Random points are snapped to the beat grid; cues are left where the DJ put them.
+ */
+export function chooseStartPoint(track: Track, options: StartPointOptions): number {
+  if (options.strategy === "cues") {
+    const cueStart = getCueStartPoint(track);
+    if (cueStart !== null) return cueStart;
+  }
+  const randomStart = getRandomStartPoint(track.duration, options.windowStart, options.windowEnd);
+  return snapToGrid(randomStart, track.beatGrid, options.snap, track.duration);
+}
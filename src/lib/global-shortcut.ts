@@ -0,0 +1,26 @@
+import { invoke } from "@tauri-apps/api/core";
+import { listen } from "@tauri-apps/api/event";
+
+// Event the backend emits when the global shortcut is pressed
+const SHORTCUT_EVENT = "global-shortcut";
+
+/**
+ * Register the system-wide reveal/next shortcut, replacing the previous one.
+ * Accelerators look like "CmdOrCtrl+Shift+Enter"; an empty string removes it.
+ * Rejects with a readable message if the shortcut is invalid or taken, in
+ * which case the previous shortcut stays registered.
+ */
+export async function setGlobalShortcut(shortcut: string): Promise<void> {
+  await invoke("set_global_shortcut", { shortcut });
+}
+
+/**
+ * Call a handler whenever the global shortcut is pressed, even while the
+ * window isn't focused. Returns a function that stops listening.
+ */
+export function onGlobalShortcut(handler: () => void): () => void {
+  const unlisten = listen(SHORTCUT_EVENT, () => handler());
+  return () => {
+    unlisten.then((stop) => stop());
+  };
+}
@@ -0,0 +1,38 @@
+import { Track } from "./rekordbox-parser";
+import { snapToGrid } from "./beat-grid";
+
+/**
+ * Ways to hear more of a track before revealing it
+ */
+export type Hint =
+  | "other-section" // Jump to a different part of the track
+  | "extend" // Keep playing past the end of the excerpt
+  | "intro"; // Play the first 16 bars
+
+// Seconds each "extend" hint adds to the excerpt
+export const HINT_EXTEND_SECONDS = 15;
+
+// Length of the intro hint, in bars
+export const INTRO_BARS = 16;
+
+// Intro length for tracks without a BPM (seconds)
+const DEFAULT_INTRO_SECONDS = 30;
+
+export const HINT_LABELS: Record<Hint, string> = {
+  "other-section": "Another section",
+  extend: `+${HINT_EXTEND_SECONDS}s`,
+  intro: `First ${INTRO_BARS} bars`,
+};
+
+/**
+ * Where the intro hint starts and how long it plays: from the first downbeat
+ * for 16 bars at the track's tempo
+ */
+export function getIntroExcerpt(track: Track): { startOffset: number; length: number } {
+  const startOffset = snapToGrid(0, track.beatGrid, "downbeat", track.duration);
+  if (!track.bpm) {
+    return { startOffset, length: DEFAULT_INTRO_SECONDS };
+  }
+  const beatsPerBar = track.beatGrid?.[0]?.meter || 4;
+  return { startOffset, length: (INTRO_BARS * beatsPerBar * 60) / track.bpm };
+}
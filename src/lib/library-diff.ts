@@ -0,0 +1,153 @@
+import { PlaylistNode, RekordboxLibrary, Track } from "./rekordbox-parser";
+
+/**
+ * A track that is no longer in the library, kept by name since it can't be
+ * looked up any more
+ */
+export interface RemovedTrack {
+  id: string;
+  name: string;
+  artist: string;
+}
+
+/**
+ * A track whose file location changed
+ */
+export interface MovedTrack {
+  id: string;
+  from: string;
+  to: string;
+}
+
+export interface PlaylistChange {
+  path: string; // e.g. "Techno / Peak Time"
+  added: number; // Tracks put in
+  removed: number; // Tracks taken out
+}
+
+/**
+ * What changed between two reads of the library
+ */
+export interface LibraryChanges {
+  detectedAt: string; // ISO timestamp of the refresh that found them
+  added: string[]; // Track IDs in the new library
+  removed: RemovedTrack[];
+  moved: MovedTrack[];
+  playlistsAdded: string[];
+  playlistsRemoved: string[];
+  playlistsChanged: PlaylistChange[];
+}
+
+const PATH_SEPARATOR = " / ";
+
+/**
+ * Track IDs of every playlist, keyed by its path through the folders
+ */
+function collectPlaylists(
+  node: PlaylistNode,
+  parentPath: string,
+  playlists: Map<string, string[]>
+): Map<string, string[]> {
+  for (const child of node.children) {
+    const path = parentPath ? `${parentPath}${PATH_SEPARATOR}${child.name}` : child.name;
+    if (child.type === "folder") {
+      collectPlaylists(child, path, playlists);
+    } else {
+      playlists.set(path, child.trackIds);
+    }
+  }
+  return playlists;
+}
+
+/**
+ * Compare two reads of the same source. Tracks are matched by ID, so a track
+ * whose file was relocated in Rekordbox counts as moved, not removed and added.
+ */
+export function diffLibraries(
+  previous: RekordboxLibrary,
+  current: RekordboxLibrary,
+  detectedAt: Date = new Date()
+): LibraryChanges {
+  const added: string[] = [];
+  const moved: MovedTrack[] = [];
+  for (const [id, track] of current.tracks) {
+    const before = previous.tracks.get(id);
+    if (!before) {
+      added.push(id);
+    } else if (before.location !== track.location) {
+      moved.push({ id, from: before.location, to: track.location });
+    }
+  }
+
+  const removed: RemovedTrack[] = [];
+  for (const [id, track] of previous.tracks) {
+    if (!current.tracks.has(id)) {
+      removed.push({ id, name: track.name, artist: track.artist });
+    }
+  }
+
+  const previousPlaylists = collectPlaylists(previous.playlists, "", new Map());
+  const currentPlaylists = collectPlaylists(current.playlists, "", new Map());
+  const playlistsAdded: string[] = [];
+  const playlistsChanged: PlaylistChange[] = [];
+  for (const [path, trackIds] of currentPlaylists) {
+    const before = previousPlaylists.get(path);
+    if (!before) {
+      playlistsAdded.push(path);
+      continue;
+    }
+    const beforeIds = new Set(before);
+    const afterIds = new Set(trackIds);
+    const change: PlaylistChange = {
+      path,
+      added: trackIds.filter((id) => !beforeIds.has(id)).length,
+      removed: before.filter((id) => !afterIds.has(id)).length,
+    };
+    if (change.added > 0 || change.removed > 0) {
+      playlistsChanged.push(change);
+    }
+  }
+  const playlistsRemoved = [...previousPlaylists.keys()].filter(
+    (path) => !currentPlaylists.has(path)
+  );
+
+  return {
+    detectedAt: detectedAt.toISOString(),
+    added,
+    removed,
+    moved,
+    playlistsAdded,
+    playlistsRemoved,
+    playlistsChanged,
+  };
+}
+
+/**
+ * Whether a diff found anything at all
+ */
+export function hasChanges(changes: LibraryChanges): boolean {
+  return (
+    changes.added.length > 0 ||
+    changes.removed.length > 0 ||
+    changes.moved.length > 0 ||
+    changes.playlistsAdded.length > 0 ||
+    changes.playlistsRemoved.length > 0 ||
+    changes.playlistsChanged.length > 0
+  );
+}
+
+/**
+ * A playlist of the tracks a refresh added, for quizzing only what's new.
+ * IDs no longer in the library are left out.
+ */
+export function newTracksPlaylist(
+  changes: LibraryChanges,
+  tracks: Map<string, Track>
+): PlaylistNode {
+  return {
+    name: "New since last refresh",
+    type: "playlist",
+    children: [],
+    trackIds: changes.added.filter((id) => tracks.has(id)),
+  };
+}
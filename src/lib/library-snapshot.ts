@@ -0,0 +1,68 @@
+import { PlaylistNode, RekordboxLibrary, Track } from "./rekordbox-parser";
+import type { DataSourceType } from "../components/SourceChooser";
+import type { LibraryChanges } from "./library-diff";
+import { readAppDataJson, writeAppDataJson } from "./app-data";
+
+/**
+ * The library as last read from a source, shown at startup while the source
+ * is read again in the background
+ */
+export interface LibrarySnapshot {
+  source: DataSourceType;
+  xmlPath: string | null; // The file it was read from, for the XML source
+  savedAt: string; // ISO timestamp of the read
+  library: RekordboxLibrary;
+  changes: LibraryChanges | null; // What the last refresh that found changes found
+}
+
+interface SnapshotFile {
+  version: 1;
+  source: DataSourceType;
+  xmlPath: string | null;
+  savedAt: string;
+  tracks: Track[];
+  playlists: PlaylistNode;
+  changes: LibraryChanges | null;
+}
+
+const SNAPSHOT_FILE = "library-snapshot.json";
+
+/**
+ * Load the saved snapshot, if there is one for this source.
+ * An XML snapshot only counts for the file it was read from.
+ */
+export async function loadLibrarySnapshot(
+  source: DataSourceType,
+  xmlPath: string | null = null
+): Promise<LibrarySnapshot | null> {
+  const file = await readAppDataJson<SnapshotFile>(SNAPSHOT_FILE);
+  if (file?.version !== 1 || file.source !== source) return null;
+  if (source === "xml" && file.xmlPath !== xmlPath) return null;
+
+  return {
+    source: file.source,
+    xmlPath: file.xmlPath,
+    savedAt: file.savedAt,
+    library: {
+      tracks: new Map(file.tracks.map((track) => [track.id, track])),
+      playlists: file.playlists,
+    },
+    changes: file.changes,
+  };
+}
+
+/**
+ * Replace the saved snapshot
+ */
+export function saveLibrarySnapshot(snapshot: LibrarySnapshot): Promise<void> {
+  const file: SnapshotFile = {
+    version: 1,
+    source: snapshot.source,
+    xmlPath: snapshot.xmlPath,
+    savedAt: snapshot.savedAt,
+    tracks: Array.from(snapshot.library.tracks.values()),
+    playlists: snapshot.library.playlists,
+    changes: snapshot.changes,
+  };
+  return writeAppDataJson(SNAPSHOT_FILE, file);
+}
@@ -0,0 +1,181 @@
+import { Track } from "./rekordbox-parser";
+import { readAppDataJson, writeAppDataJson } from "./app-data";
+import { decodeForAnalysis } from "./audio-buffer";
+import { getTrackIdentity } from "./track-identity";
+
+/**
+ * Measured loudness of a whole track
+ */
+export interface LoudnessAnalysis {
+  loudness: number; // Gated RMS level (dBFS)
+  peak: number; // Highest sample level (dBFS)
+}
+
+interface LoudnessFile {
+  version: 1;
+  tracks: Record<string, LoudnessAnalysis>;
+}
+
+const LOUDNESS_FILE = "track-loudness.json";
+// Level every track is brought to, roughly what streaming services use
+const TARGET_LOUDNESS = -14;
+// Limits on how far a track's level is changed (dB)
+const MAX_BOOST = 12;
+const MAX_CUT = -18;
+// Boosts stop short of pushing peaks above this level (dBFS)
+const PEAK_CEILING = -1;
+// Loudness is measured in blocks; near-silent blocks and quiet passages are ignored
+const BLOCK_SECONDS = 0.4;
+const ABSOLUTE_GATE = -70;
+const RELATIVE_GATE = -10;
+
+function toDecibels(power: number): number {
+  return power > 0 ? 10 * Math.log10(power) : -Infinity;
+}
+
+function meanPower(powers: number[]): number {
+  return powers.reduce((sum, p) => sum + p, 0) / powers.length;
+}
+
+/**
+ * Measure the loudness of decoded audio.
+ * Gating follows the same idea as LUFS (EBU R128) without the frequency weighting,
+ * so silent intros and breakdowns don't make a track look quieter than it is.
+ */
+export function measureLoudness(buffer: AudioBuffer): LoudnessAnalysis {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) =>
+    buffer.getChannelData(c)
+  );
+  const blockSize = Math.max(1, Math.round(BLOCK_SECONDS * buffer.sampleRate));
+  const blockPowers: number[] = [];
+  let peak = 0;
+
+  for (let start = 0; start < buffer.length; start += blockSize) {
+    const end = Math.min(start + blockSize, buffer.length);
+    let sum = 0;
+    for (const data of channels) {
+      for (let i = start; i < end; i++) {
+        const sample = data[i];
+        sum += sample * sample;
+        const level = Math.abs(sample);
+        if (level > peak) peak = level;
+      }
+    }
+    blockPowers.push(sum / ((end - start) * channels.length));
+  }
+
+  const peakDb = Math.max(ABSOLUTE_GATE, toDecibels(peak * peak));
+  const audible = blockPowers.filter((p) => toDecibels(p) > ABSOLUTE_GATE);
+  if (audible.length === 0) {
+    return { loudness: ABSOLUTE_GATE, peak: peakDb };
+  }
+  const threshold = toDecibels(meanPower(audible)) + RELATIVE_GATE;
+  const gated = audible.filter((p) => toDecibels(p) > threshold);
+
+  return {
+    loudness: toDecibels(meanPower(gated)),
+    peak: peakDb,
+  };
+}
+
+/**
+ * Linear gain that brings a track to the target loudness
+ */
+export function normalizationGain(analysis: LoudnessAnalysis): number {
+  if (analysis.loudness <= ABSOLUTE_GATE) return 1;
+
+  let gainDb = Math.min(MAX_BOOST, Math.max(MAX_CUT, TARGET_LOUDNESS - analysis.loudness));
+  if (gainDb > 0) {
+    gainDb = Math.min(gainDb, Math.max(0, PEAK_CEILING - analysis.peak));
+  }
+  return Math.pow(10, gainDb / 20);
+}
+
+/**
+ * Per-track loudness measurements, persisted to the app data directory
+ * so each track only has to be decoded once.
+ */
+export class LoudnessCache {
+  private analyses: Map<string, LoudnessAnalysis> = new Map();
+  private pending: Map<string, Promise<LoudnessAnalysis>> = new Map();
+  private failed: Set<string> = new Set(); // Tracks that couldn't be decoded this session
+  private loadPromise: Promise<void> | null = null;
+
+  /**
+   * Load saved measurements (only reads the file once)
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = readAppDataJson<LoudnessFile>(LOUDNESS_FILE).then((file) => {
+        if (file?.version === 1) {
+          // Keep anything measured while the file was loading
+          this.analyses = new Map([...Object.entries(file.tracks), ...this.analyses]);
+        }
+      });
+    }
+    return this.loadPromise;
+  }
+
+  private async save(): Promise<void> {
+    await this.load();
+    const file: LoudnessFile = {
+      version: 1,
+      tracks: Object.fromEntries(this.analyses),
+    };
+    await writeAppDataJson(LOUDNESS_FILE, file);
+  }
+
+  /**
+   * Get the saved measurement for a track, if it has been analysed
+   */
+  get(track: Track): LoudnessAnalysis | undefined {
+    return this.analyses.get(getTrackIdentity(track));
+  }
+
+  /**
+   * Decode a track and measure its loudness, unless a saved measurement turns
+   * up once the file has loaded. Concurrent requests for the same track share
+   * one decode.
+   */
+  analyze(track: Track): Promise<LoudnessAnalysis> {
+    const key = getTrackIdentity(track);
+    const cached = this.analyses.get(key);
+    if (cached) return Promise.resolve(cached);
+    if (this.failed.has(key)) {
+      return Promise.reject(new Error("Track could not be decoded"));
+    }
+
+    let pending = this.pending.get(key);
+    if (!pending) {
+      pending = this.load()
+        .then(async () => {
+          const saved = this.analyses.get(key);
+          if (saved) return saved;
+          const analysis = measureLoudness(await decodeForAnalysis(track.location));
+          this.analyses.set(key, analysis);
+          this.save().catch((err) => {
+            // Measured again next session
+            console.error("[loudness] Failed to save measurements:", err);
+          });
+          return analysis;
+        })
+        .catch((err) => {
+          this.failed.add(key);
+          throw err;
+        })
+        .finally(() => this.pending.delete(key));
+      this.pending.set(key, pending);
+    }
+    return pending;
+  }
+}
+
+// Singleton instance
+let cacheInstance: LoudnessCache | null = null;
+
+export function getLoudnessCache(): LoudnessCache {
+  if (!cacheInstance) {
+    cacheInstance = new LoudnessCache();
+  }
+  return cacheInstance;
+}
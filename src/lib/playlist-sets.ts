@@ -0,0 +1,127 @@
+import { PlaylistNode, getAllTrackIdsFromPlaylist } from "./rekordbox-parser";
+
+export type PlaylistCombine = "union" | "intersection";
+
+export type PlaylistRole = "include" | "exclude";
+
+/**
+ * A quiz pool made from several playlists or folders: tracks in the included
+ * ones, minus tracks in any excluded one
+ */
+export interface PlaylistExpression {
+  include: PlaylistNode[]; // Every track when empty
+  exclude: PlaylistNode[];
+  combine: PlaylistCombine; // In any included playlist, or in all of them
+}
+
+/**
+ * An expression for just one playlist
+ */
+export function singlePlaylist(node: PlaylistNode): PlaylistExpression {
+  return { include: [node], exclude: [], combine: "union" };
+}
+
+/**
+ * How a playlist takes part in an expression, if it does
+ */
+export function getPlaylistRole(
+  expression: PlaylistExpression | null,
+  node: PlaylistNode
+): PlaylistRole | null {
+  if (!expression) return null;
+  if (expression.include.includes(node)) return "include";
+  if (expression.exclude.includes(node)) return "exclude";
+  return null;
+}
+
+/**
+ * Include or exclude a playlist, or take it out again if it already has that
+ * role. Returns null once nothing is left, meaning all tracks.
+ */
+export function togglePlaylist(
+  expression: PlaylistExpression | null,
+  node: PlaylistNode,
+  role: PlaylistRole
+): PlaylistExpression | null {
+  const current = expression ?? { include: [], exclude: [], combine: "union" };
+  const wasRole = getPlaylistRole(current, node);
+  const include = current.include.filter((n) => n !== node);
+  const exclude = current.exclude.filter((n) => n !== node);
+  if (wasRole !== role) {
+    (role === "include" ? include : exclude).push(node);
+  }
+  if (include.length === 0 && exclude.length === 0) return null;
+  return { ...current, include, exclude };
+}
+
+/**
+ * Track IDs in an expression, in playlist order
+ * @param allTrackIds - The whole library, used when nothing is included
+ */
+export function resolvePlaylistExpression(
+  expression: PlaylistExpression,
+  allTrackIds: string[]
+): string[] {
+  const { include, exclude, combine } = expression;
+
+  let ids: string[];
+  if (include.length === 0) {
+    ids = allTrackIds;
+  } else {
+    const lists = include.map(getAllTrackIdsFromPlaylist);
+    ids = [...new Set(lists.flat())];
+    if (combine === "intersection") {
+      const sets = lists.map((list) => new Set(list));
+      ids = ids.filter((id) => sets.every((set) => set.has(id)));
+    }
+  }
+
+  const excluded = new Set(exclude.flatMap(getAllTrackIdsFromPlaylist));
+  return excluded.size > 0 ? ids.filter((id) => !excluded.has(id)) : ids;
+}
+
+/**
+ * Names of the folders leading to a node, and the node itself
+ */
+function getPlaylistPath(root: PlaylistNode, node: PlaylistNode): string[] | null {
+  for (const child of root.children) {
+    if (child === node) return [child.name];
+    const path = getPlaylistPath(child, node);
+    if (path) return [child.name, ...path];
+  }
+  return null;
+}
+
+/**
+ * Find a playlist or folder at the same place in a tree read again later
+ */
+export function findSamePlaylist(
+  node: PlaylistNode,
+  previousRoot: PlaylistNode,
+  currentRoot: PlaylistNode
+): PlaylistNode | null {
+  const path = getPlaylistPath(previousRoot, node);
+  if (!path) return null;
+  let current: PlaylistNode | undefined = currentRoot;
+  for (const name of path) {
+    current = current.children.find((child) => child.name === name);
+    if (!current) return null;
+  }
+  return current;
+}
+
+/**
+ * Point an expression at other nodes, dropping any that have no counterpart.
+ * Returns null if nothing is left.
+ */
+export function remapPlaylistExpression(
+  expression: PlaylistExpression,
+  map: (node: PlaylistNode) => PlaylistNode | null
+): PlaylistExpression | null {
+  const remap = (nodes: PlaylistNode[]) =>
+    nodes.map(map).filter((node): node is PlaylistNode => node !== null);
+  const include = remap(expression.include);
+  const exclude = remap(expression.exclude);
+  if (include.length === 0 && exclude.length === 0) return null;
+  return { ...expression, include, exclude };
+}
@@ -1,17 +1,113 @@
-import { Track, PlaylistNode, getAllTrackIdsFromPlaylist } from "./rekordbox-parser";
-import { getAudioPlayer, PlaybackState } from "./audio-player";
+import { Track, PlaylistNode } from "./rekordbox-parser";
+import { getAudioPlayer, NowPlaying, PlaybackState } from "./audio-player";
+import { pickDistractors, shuffle } from "./distractors";
+import { gradeTypedAnswer, TypedAnswer, TypedAnswerResult } from "./answer-grading";
+import { getScheduler, SelectionStrategy } from "./scheduler";
+import { getQuizHistory } from "./quiz-history";
+import { chooseStartPoint, StartPointOptions, StartPointStrategy } from "./excerpt";
+import { BeatSnap } from "./beat-grid";
+import { QuizTimer, SpeedMode, SpeedRoundTimer } from "./speed-round";
+import { getSettings, subscribeSettings } from "./settings";
+import { getLoudnessCache, normalizationGain } from "./loudness";
+import { DifficultyFilters, NO_FILTERS, difficultyMultiplier } from "./difficulty";
+import { getWaveformCache, WaveformData } from "./waveform";
+import { getIntroExcerpt, Hint, HINT_EXTEND_SECONDS } from "./hints";
+import { findMatchingTracks, TrackRule } from "./track-rules";
+import { PlaylistExpression, resolvePlaylistExpression, singlePlaylist } from "./playlist-sets";
+import {
+  chooseIncomingTrack,
+  planTransition,
+  TransitionPlan,
+  transitionFilters,
+} from "./transition";
+import {
+  addRoundToSession,
+  createSessionStats,
+  scoreRound,
+  SessionStats,
+} from "./scoring";
 import { exists } from "@tauri-apps/plugin-fs";
 
+export type AnswerMode = "reveal" | "multiple-choice" | "typed";
+
+export type Grade = "correct" | "partial" | "missed";
+
+// The two tracks of a transition round, graded separately
+export type TransitionSide = "outgoing" | "incoming";
+
+export type ExcerptMode = "fixed" | "progressive";
+
+export type RoundType = "single" | "transition";
+
+// Excerpt lengths unlocked one by one in progressive mode (seconds)
+export const PROGRESSIVE_STEPS = [1, 2, 4, 8, 16, 30];
+
+// Random picks to try when looking for a different section of a track
+const OTHER_SECTION_ATTEMPTS = 5;
+
 export interface QuizState {
   currentTrack: Track | null;
+  incomingTrack: Track | null; // Track mixed in during a transition round
   isRevealed: boolean;
   isLoading: boolean;
   error: string | null;
   playbackState: PlaybackState;
+  waveform: WaveformData | null; // Peaks of the current track, once decoded
+  answerMode: AnswerMode; // Transition rounds are always self-graded
+  roundType: RoundType;
+  selectionStrategy: SelectionStrategy;
+  excerptMode: ExcerptMode;
+  startPointStrategy: StartPointStrategy;
+  beatSnap: BeatSnap;
+  speedMode: SpeedMode;
+  filters: DifficultyFilters; // Processing that makes tracks harder to recognise
+  timer: QuizTimer | null; // Countdowns while a speed round is running
+  progressiveStep: number | null; // Index into PROGRESSIVE_STEPS of the unlocked length
+  hintsUsed: Hint[]; // "Hear more" hints taken this round, in order
+  canUseHints: boolean; // Hints are offered until the answer is shown
+  choices: Track[] | null; // Candidate tracks in multiple-choice mode
+  chosenTrackId: string | null; // The candidate the user picked
+  typedResult: TypedAnswerResult | null; // Grading details in typed-answer mode
+  grade: Grade | null; // How the current round was answered
+  transitionGrades: Partial<Record<TransitionSide, Grade>>; // Each track's self-grade in a transition round
+  roundPoints: number | null; // Points earned for the current round
+  responseTime: number | null; // Seconds from play start to reveal
+  session: SessionStats;
+  sessionSummary: SessionStats | null; // Stats of the last finished session
 }
 
 export type QuizStateListener = (state: QuizState) => void;
 
+/**
+ * The next track, chosen and buffered while the current one plays
+ */
+interface PrefetchedTrack {
+  track: Track;
+  startOffset: number;
+}
+
+/**
+ * Score a transition round from its two tracks' grades: full marks for
+ * both, none for neither, and partial for anything in between
+ */
+function combineGrades(outgoing: Grade, incoming: Grade): Grade {
+  return outgoing === incoming ? outgoing : "partial";
+}
+
+/**
+ * OS media controls entry for a revealed round. A transition shows both tracks.
+ */
+function nowPlayingInfo(track: Track, incoming: Track | null): NowPlaying {
+  if (!incoming) {
+    return { title: track.name, artist: track.artist, album: track.album };
+  }
+  return {
+    title: `${track.name} → ${incoming.name}`,
+    artist: `${track.artist} → ${incoming.artist}`,
+    album: "",
+  };
+}
+
 /**
  * Quiz engine that manages track selection and quiz flow
  */
@@ -19,12 +115,42 @@ export class QuizEngine {
   private tracks: Map<string, Track>;
   private activeTrackIds: string[]; // Filtered by playlist selection
   private currentTrack: Track | null = null;
+  private incomingTrack: Track | null = null;
+  private transitionPlan: TransitionPlan | null = null;
   private isRevealed = false;
   private isLoading = false;
   private error: string | null = null;
   private listeners: Set<QuizStateListener> = new Set();
   private playbackState: PlaybackState;
+  private waveform: WaveformData | null = null;
   private usedTrackIds: Set<string> = new Set(); // Track which songs have been played
+  private answerMode: AnswerMode = "reveal";
+  private roundType: RoundType = "single";
+  private selectionStrategy: SelectionStrategy = "random";
+  private excerptMode: ExcerptMode = "fixed";
+  private startPointStrategy: StartPointStrategy = "random";
+  private beatSnap: BeatSnap = "off";
+  private speedMode: SpeedMode = "off";
+  private filters: DifficultyFilters = NO_FILTERS;
+  private speedTimer: SpeedRoundTimer | null = null;
+  private advanceTimeout: number | null = null;
+  private progressiveStep: number | null = null;
+  private hintsUsed: Hint[] = [];
+  private choices: Track[] | null = null;
+  private chosenTrackId: string | null = null;
+  private typedResult: TypedAnswerResult | null = null;
+  private grade: Grade | null = null;
+  private transitionGrades: Partial<Record<TransitionSide, Grade>> = {};
+  private roundPoints: number | null = null;
+  private roundStartedAt: number | null = null; // When the current track first started playing
+  private responseTime: number | null = null;
+  private attemptRecorded = false; // Whether the current round is in the history yet
+  private session: SessionStats = createSessionStats();
+  private sessionSummary: SessionStats | null = null;
+  private prefetch: PrefetchedTrack | null = null;
+  private prefetchGeneration = 0; // Bumped to abandon a prefetch that is still being chosen
+  private unsubscribePlayer: () => void;
+  private unsubscribeSettings: () => void;
 
   constructor(tracks: Map<string, Track>) {
     this.tracks = tracks;
@@ -32,10 +158,23 @@ export class QuizEngine {
     this.playbackState = getAudioPlayer().getState();
 
     // Subscribe to audio player state
-    getAudioPlayer().subscribe((state) => {
+    this.unsubscribePlayer = getAudioPlayer().subscribe((state) => {
+      if (state.isPlaying && this.currentTrack && this.roundStartedAt === null) {
+        this.roundStartedAt = Date.now();
+        if (this.session.startedAt === null) {
+          this.session = { ...this.session, startedAt: this.roundStartedAt };
+        }
+      }
+      this.updateTimerPause(state);
       this.playbackState = state;
       this.notifyListeners();
     });
+
+    // The start window and normalization may have changed
+    this.unsubscribeSettings = subscribeSettings(() => this.invalidatePrefetch());
+
+    // Media keys and headphone buttons move the quiz on like the Enter key
+    getAudioPlayer().setNextTrackHandler(() => this.advance());
   }
 
   /**
@@ -48,6 +187,7 @@ export class QuizEngine {
   }
 
   private notifyListeners(): void {
+    this.updateTimerRunning();
     const state = this.getState();
     for (const listener of this.listeners) {
       listener(state);
@@ -60,40 +200,430 @@ export class QuizEngine {
   getState(): QuizState {
     return {
       currentTrack: this.currentTrack,
+      incomingTrack: this.incomingTrack,
       isRevealed: this.isRevealed,
       isLoading: this.isLoading,
       error: this.error,
       playbackState: this.playbackState,
+      waveform: this.waveform,
+      answerMode: this.roundAnswerMode,
+      roundType: this.roundType,
+      selectionStrategy: this.selectionStrategy,
+      excerptMode: this.excerptMode,
+      startPointStrategy: this.startPointStrategy,
+      beatSnap: this.beatSnap,
+      speedMode: this.speedMode,
+      filters: this.filters,
+      timer: this.speedTimer?.getState() ?? null,
+      progressiveStep: this.progressiveStep,
+      hintsUsed: this.hintsUsed,
+      canUseHints: this.canUseHints,
+      choices: this.choices,
+      chosenTrackId: this.chosenTrackId,
+      typedResult: this.typedResult,
+      grade: this.grade,
+      transitionGrades: this.transitionGrades,
+      roundPoints: this.roundPoints,
+      responseTime: this.responseTime,
+      session: this.session,
+      sessionSummary: this.sessionSummary,
     };
   }
 
   /**
-   * Filter tracks to a specific playlist
+   * Set how the user answers each round. Takes effect from the next track.
    */
-  setPlaylistFilter(playlist: PlaylistNode | null): void {
-    if (playlist === null) {
-      // All tracks
-      this.activeTrackIds = Array.from(this.tracks.keys());
-    } else {
-      this.activeTrackIds = getAllTrackIdsFromPlaylist(playlist);
+  setAnswerMode(mode: AnswerMode): void {
+    this.answerMode = mode;
+    this.notifyListeners();
+  }
+
+  /**
+   * How rounds are answered: transitions have two tracks to name, so they
+   * are always revealed and self-graded
+   */
+  private get roundAnswerMode(): AnswerMode {
+    return this.roundType === "transition" ? "reveal" : this.answerMode;
+  }
+
+  /**
+   * Set whether rounds play one track or a transition between two.
+   * Takes effect from the next track.
+   */
+  setRoundType(type: RoundType): void {
+    this.roundType = type;
+    this.invalidatePrefetch();
+    this.notifyListeners();
+  }
+
+  /**
+   * Set how the next track is chosen from the active set
+   */
+  setSelectionStrategy(strategy: SelectionStrategy): void {
+    this.selectionStrategy = strategy;
+    this.invalidatePrefetch();
+    if (strategy === "spaced-repetition") {
+      // Start reading saved schedules before the first pick
+      getScheduler().load();
+    }
+    this.notifyListeners();
+  }
+
+  /**
+   * Set fixed or progressive excerpts. Takes effect from the next track.
+   */
+  setExcerptMode(mode: ExcerptMode): void {
+    this.excerptMode = mode;
+    this.notifyListeners();
+  }
+
+  /**
+   * Set where excerpts start: anywhere in the middle of the track, or at a cue.
+   * Takes effect from the next track.
+   */
+  setStartPointStrategy(strategy: StartPointStrategy): void {
+    this.startPointStrategy = strategy;
+    this.invalidatePrefetch();
+    this.notifyListeners();
+  }
+
+  /**
+   * Set whether random excerpt starts snap to a downbeat or phrase boundary.
+   * Takes effect from the next track.
+   */
+  setBeatSnap(snap: BeatSnap): void {
+    this.beatSnap = snap;
+    this.invalidatePrefetch();
+    this.notifyListeners();
+  }
+
+  /**
+   * Set the speed round mode. Takes effect from the next session.
+   */
+  setSpeedMode(mode: SpeedMode): void {
+    this.speedMode = mode;
+    this.notifyListeners();
+  }
+
+  /**
+   * Set the difficulty filters. Reversed playback takes effect from the next track.
+   */
+  setFilters(filters: DifficultyFilters): void {
+    this.filters = filters;
+    getAudioPlayer().setFilters(filters);
+    // A preloaded track may have been prepared for the wrong direction
+    this.invalidatePrefetch();
+    this.notifyListeners();
+  }
+
+  /**
+   * Start the speed round countdowns at the start of a session
+   */
+  private startSpeedRound(): void {
+    if (this.speedMode === "off" || this.speedTimer) return;
+
+    const settings = getSettings();
+    this.speedTimer = new SpeedRoundTimer(
+      {
+        trackTimeLimit: settings.speedTrackTimeLimit,
+        roundTimeLimit: this.speedMode === "timed-round" ? settings.speedRoundTimeLimit : null,
+        advanceDelay: settings.speedAdvanceDelay,
+      },
+      {
+        onTick: () => this.notifyListeners(),
+        onTrackExpired: () => this.expireTrack(),
+        onRoundExpired: () => this.reset(),
+      }
+    );
+  }
+
+  /**
+   * Out of time in a speed round: show the answer, count it as missed in any
+   * answer mode, and move on after the pause
+   */
+  private expireTrack(): void {
+    if (!this.currentTrack || this.isRevealed) return;
+    this.markRevealed();
+    this.completeRound("missed");
+    this.notifyListeners();
+  }
+
+  /**
+   * Stop the speed round countdowns and any pending auto-advance
+   */
+  private stopSpeedRound(): void {
+    this.speedTimer?.destroy();
+    this.speedTimer = null;
+    this.cancelAutoAdvance();
+  }
+
+  /**
+   * The track countdown runs until the answer is shown; the round countdown
+   * runs for the whole session except while a track is loading
+   */
+  private updateTimerRunning(): void {
+    if (!this.speedTimer) return;
+    const hasTrack = this.currentTrack !== null && !this.isLoading;
+    this.speedTimer.setRunning(hasTrack && !this.isRevealed, hasTrack);
+  }
+
+  /**
+   * Pause the countdowns while the user has paused playback. Playback stopping
+   * at the end of the excerpt doesn't count as a pause.
+   */
+  private updateTimerPause(state: PlaybackState): void {
+    if (!this.speedTimer || !this.currentTrack || this.isLoading) return;
+
+    if (state.isPlaying) {
+      this.speedTimer.setPaused(false);
+    } else if (state.currentTime < state.maxPlayTime - 0.25) {
+      this.speedTimer.setPaused(true);
     }
+  }
+
+  /**
+   * In a speed round, move on to the next track shortly after the answer is graded
+   */
+  private scheduleAutoAdvance(): void {
+    if (!this.speedTimer) return;
+    this.cancelAutoAdvance();
+    this.advanceTimeout = window.setTimeout(() => {
+      this.advanceTimeout = null;
+      this.nextTrack();
+    }, this.speedTimer.advanceDelay * 1000);
+  }
+
+  private cancelAutoAdvance(): void {
+    if (this.advanceTimeout !== null) {
+      clearTimeout(this.advanceTimeout);
+      this.advanceTimeout = null;
+    }
+  }
+
+  /**
+   * Filter tracks to a playlist, or to a combination of playlists
+   */
+  setPlaylistFilter(filter: PlaylistNode | PlaylistExpression | null): void {
+    const expression = filter === null || "include" in filter ? filter : singlePlaylist(filter);
+    this.activeTrackIds = this.resolveFilter(expression);
     // Reset to start screen when changing playlist
     this.reset();
   }
 
   /**
-   * Reset quiz to start screen
+   * Filter tracks to those meeting a rule, e.g. a saved filter
+   */
+  setRuleFilter(rule: TrackRule | null): void {
+    this.activeTrackIds = this.resolveFilter(rule);
+    this.reset();
+  }
+
+  /**
+   * Swap in a refreshed library without ending the session. The filter is
+   * applied to the new tracks and the round in progress carries on, unless
+   * one of its tracks was removed, in which case the quiz moves on.
+   */
+  setTracks(tracks: Map<string, Track>, filter: PlaylistExpression | TrackRule | null): void {
+    this.tracks = tracks;
+    this.activeTrackIds = this.resolveFilter(filter);
+    for (const id of this.usedTrackIds) {
+      if (!tracks.has(id)) {
+        this.usedTrackIds.delete(id);
+      }
+    }
+    this.invalidatePrefetch();
+
+    const removed = [this.currentTrack, this.incomingTrack].some(
+      (track) => track !== null && !tracks.has(track.id)
+    );
+    if (removed && !this.isLoading) {
+      this.nextTrack();
+      return;
+    }
+    this.notifyListeners();
+  }
+
+  /**
+   * Track IDs a playlist selection or rule allows, or every track for null
+   */
+  private resolveFilter(filter: PlaylistExpression | TrackRule | null): string[] {
+    const allTrackIds = Array.from(this.tracks.keys());
+    if (filter === null) return allTrackIds;
+    if ("include" in filter) return resolvePlaylistExpression(filter, allTrackIds);
+    return findMatchingTracks(filter, this.tracks.values());
+  }
+
+  /**
+   * Reset quiz to start screen, ending the current session
    */
   reset(): void {
+    if (this.session.rounds > 0) {
+      this.sessionSummary = this.session;
+    }
+    this.session = createSessionStats();
+    this.recordAttempt();
+    this.stopSpeedRound();
+    this.invalidatePrefetch();
     getAudioPlayer().stop();
     this.currentTrack = null;
+    this.incomingTrack = null;
+    this.transitionPlan = null;
+    this.waveform = null;
     this.isRevealed = false;
     this.isLoading = false;
     this.error = null;
     this.usedTrackIds.clear();
+    this.clearAnswer();
     this.notifyListeners();
   }
 
+  /**
+   * Clear any answer from the previous round
+   */
+  private clearAnswer(): void {
+    this.choices = null;
+    this.chosenTrackId = null;
+    this.typedResult = null;
+    this.grade = null;
+    this.transitionGrades = {};
+    this.roundPoints = null;
+    this.progressiveStep = null;
+    this.hintsUsed = [];
+    this.roundStartedAt = null;
+    this.responseTime = null;
+    this.attemptRecorded = false;
+  }
+
+  /**
+   * Dismiss the summary of the last finished session
+   */
+  dismissSessionSummary(): void {
+    this.sessionSummary = null;
+    this.notifyListeners();
+  }
+
+  /**
+   * Build the shuffled candidate list for a multiple-choice round
+   */
+  private buildChoices(track: Track): Track[] {
+    const distractors = pickDistractors(track, this.activeTrackIds, this.tracks);
+    return shuffle([track, ...distractors]);
+  }
+
+  /**
+   * Mark the current round as revealed and measure the response time
+   */
+  private markRevealed(): void {
+    if (this.isRevealed) return;
+    this.isRevealed = true;
+    if (this.roundStartedAt !== null) {
+      this.responseTime = (Date.now() - this.roundStartedAt) / 1000;
+    }
+    if (this.currentTrack) {
+      getAudioPlayer().setNowPlaying(nowPlayingInfo(this.currentTrack, this.incomingTrack));
+    }
+  }
+
+  /**
+   * Grade the current round, update the session score and feed the scheduler.
+   * Grades reach the scheduler whichever strategy is active so switching later has history.
+   */
+  private completeRound(grade: Grade): void {
+    if (!this.currentTrack || this.grade !== null) return;
+
+    const round = {
+      grade,
+      responseTime: this.responseTime,
+      unlockedSeconds: this.progressiveStep !== null
+        ? PROGRESSIVE_STEPS[this.progressiveStep]
+        : undefined,
+      difficulty: difficultyMultiplier(
+        this.incomingTrack ? transitionFilters(this.filters) : this.filters
+      ),
+      hintsUsed: this.hintsUsed.length,
+    };
+    this.grade = grade;
+    this.roundPoints = scoreRound(round);
+    const gradedAt = Date.now();
+    this.session = {
+      ...addRoundToSession(this.session, round, this.roundPoints),
+      // A round answered before it played starts the session when graded
+      startedAt: this.session.startedAt ?? gradedAt,
+      endedAt: gradedAt,
+    };
+    // In a transition round each track is scheduled on its own grade
+    getScheduler().record(this.currentTrack, this.transitionGrades.outgoing ?? grade);
+    if (this.incomingTrack) {
+      getScheduler().record(this.incomingTrack, this.transitionGrades.incoming ?? grade);
+    }
+    this.recordAttempt();
+    this.scheduleAutoAdvance();
+  }
+
+  /**
+   * Save the current round to the quiz history, once.
+   * Rounds left without a grade are saved when moving on.
+   */
+  private recordAttempt(): void {
+    if (!this.currentTrack || this.attemptRecorded) return;
+
+    const { startOffset, maxPlayTime } = getAudioPlayer().getState();
+    const attempt = {
+      timestamp: Date.now(),
+      startOffset,
+      excerptLength: maxPlayTime,
+      answerMode: this.roundAnswerMode,
+      grade: this.transitionGrades.outgoing ?? this.grade,
+      responseTime: this.responseTime,
+      hints: this.hintsUsed,
+      titleMatch: this.typedResult?.titleMatch,
+      artistMatch: this.typedResult?.artistMatch,
+    };
+    getQuizHistory().record(this.currentTrack, attempt);
+    if (this.incomingTrack && this.transitionPlan) {
+      const plan = this.transitionPlan;
+      getQuizHistory().record(this.incomingTrack, {
+        ...attempt,
+        grade: this.transitionGrades.incoming ?? this.grade,
+        startOffset: plan.incomingOffset,
+        excerptLength: plan.length - plan.crossfadeStart,
+      });
+    }
+    this.attemptRecorded = true;
+  }
+
+  /**
+   * Get a track that hasn't been used yet, using the selected strategy
+   */
+  private pickUnusedTrack(): Track | null {
+    if (this.selectionStrategy === "spaced-repetition") {
+      return this.getScheduledUnusedTrack();
+    }
+    return this.getRandomUnusedTrack();
+  }
+
+  /**
+   * Get the unused track the scheduler most wants to review
+   */
+  private getScheduledUnusedTrack(): Track | null {
+    let unusedIds = this.activeTrackIds.filter(
+      (id) => !this.usedTrackIds.has(id)
+    );
+
+    // If all tracks used, reset
+    if (unusedIds.length === 0) {
+      this.usedTrackIds.clear();
+      unusedIds = this.activeTrackIds;
+    }
+
+    const candidates: Track[] = [];
+    for (const id of unusedIds) {
+      const track = this.tracks.get(id);
+      if (track) candidates.push(track);
+    }
+    return getScheduler().pick(candidates);
+  }
+
   /**
    * Get a random track that hasn't been used yet
    */
@@ -126,15 +656,140 @@ export class QuizEngine {
   }
 
   /**
-   * Calculate a random start point in the middle 50% of the track
+   * Pick the track to mix into a transition, from the unused tracks if any are left
+   */
+  private pickIncomingTrack(outgoing: Track): Track | null {
+    const unused: Track[] = [];
+    const all: Track[] = [];
+    for (const id of this.activeTrackIds) {
+      const track = this.tracks.get(id);
+      if (!track) continue;
+      all.push(track);
+      if (!this.usedTrackIds.has(id)) unused.push(track);
+    }
+    return chooseIncomingTrack(outgoing, unused) ?? chooseIncomingTrack(outgoing, all);
+  }
+
+  /**
+   * Choose where a track's excerpt starts, using the current settings
+   */
+  private chooseExcerptStart(track: Track): number {
+    const settings = getSettings();
+    return chooseStartPoint(track, {
+      strategy: this.startPointStrategy,
+      snap: this.beatSnap,
+      windowStart: settings.startWindowStart / 100,
+      windowEnd: settings.startWindowEnd / 100,
+    });
+  }
+
+  /**
+   * Choose the next track and start buffering it (and measuring its loudness)
+   * while the current one plays, so the next round starts immediately
    */
-  private getRandomStartPoint(duration: number): number {
-    // Avoid first 25% and last 25%
-    const startRange = duration * 0.25;
-    const endRange = duration * 0.75;
-    const range = endRange - startRange;
+  private async prefetchNextTrack(): Promise<void> {
+    this.invalidatePrefetch();
+    // The spare deck plays the incoming track of a transition
+    if (this.roundType === "transition") return;
+    const generation = this.prefetchGeneration;
 
-    return startRange + Math.random() * range;
+    const track = this.pickUnusedTrack();
+    if (!track || track.id === this.currentTrack?.id) return;
+
+    const fileExists = await this.checkTrackExists(track);
+    if (generation !== this.prefetchGeneration) return;
+    if (!fileExists) {
+      console.warn(`Track file not found: ${track.location}`);
+      this.usedTrackIds.add(track.id);
+      return;
+    }
+
+    const startOffset = this.chooseExcerptStart(track);
+    this.prefetch = { track, startOffset };
+    getAudioPlayer().preload(track.location, startOffset);
+    this.loadWaveform(track);
+    if (getSettings().normalizeLoudness) {
+      getLoudnessCache()
+        .analyze(track)
+        .catch(() => {
+          // Retried (and logged) when the track is played
+        });
+    }
+  }
+
+  /**
+   * Drop the prefetched track, e.g. because the pool or settings changed
+   */
+  private invalidatePrefetch(): void {
+    this.prefetchGeneration += 1;
+    this.prefetch = null;
+    getAudioPlayer().cancelPreload();
+  }
+
+  /**
+   * Take the prefetched track for this round, if it is still a valid pick
+   */
+  private takePrefetch(): PrefetchedTrack | null {
+    const prefetch = this.prefetch;
+    this.prefetchGeneration += 1;
+    this.prefetch = null;
+    if (
+      !prefetch ||
+      this.usedTrackIds.has(prefetch.track.id) ||
+      !this.activeTrackIds.includes(prefetch.track.id)
+    ) {
+      return null;
+    }
+    return prefetch;
+  }
+
+  /**
+   * Decode a track's waveform in the background and show it if the track
+   * is still current when it's ready
+   */
+  private loadWaveform(track: Track): void {
+    getWaveformCache()
+      .load(track)
+      .then((waveform) => {
+        if (this.currentTrack?.id === track.id) {
+          this.waveform = waveform;
+          this.notifyListeners();
+        }
+      })
+      .catch((err) => {
+        console.warn(`Could not draw waveform for ${track.name}:`, err);
+      });
+  }
+
+  /**
+   * Set the player's gain for a track's measured loudness. A track that hasn't
+   * been measured yet starts at its own level and the gain is applied once the
+   * analysis finishes, so playback never waits for it.
+   * @param incoming - Whether the track is the incoming track of a transition
+   */
+  private applyNormalization(track: Track, incoming = false): void {
+    const player = getAudioPlayer();
+    const loudness = getLoudnessCache();
+    const setGain = (gain: number) =>
+      incoming ? player.setIncomingNormalizationGain(gain) : player.setNormalizationGain(gain);
+    const measured = loudness.get(track);
+    if (measured) {
+      setGain(normalizationGain(measured));
+      return;
+    }
+
+    loudness
+      .analyze(track)
+      .then((analysis) => {
+        const current = incoming ? this.incomingTrack : this.currentTrack;
+        if (current?.id === track.id) {
+          setGain(normalizationGain(analysis));
+        }
+      })
+      .catch((err) => {
+        // The track plays at its own level
+        console.warn(`[loudness] Could not analyse ${track.name}:`, err);
+      });
   }
 
   /**
@@ -154,18 +809,31 @@ export class QuizEngine {
   async nextTrack(): Promise<void> {
     this.isLoading = true;
     this.error = null;
+    this.sessionSummary = null;
+    this.cancelAutoAdvance();
     // Don't clear currentTrack or isRevealed yet - keep showing previous state
     this.notifyListeners();
 
+    this.recordAttempt();
     const player = getAudioPlayer();
     player.stop();
 
-    // Try to find a valid track (max 10 attempts)
+    if (this.selectionStrategy === "spaced-repetition") {
+      await getScheduler().load();
+    }
+
+    // Try to find a valid track
+    const settings = getSettings();
+    if (settings.normalizeLoudness) {
+      // Saved measurements, so a measured track starts at the right level
+      await getLoudnessCache().load();
+    }
     let attempts = 0;
-    const maxAttempts = 10;
+    const maxAttempts = settings.maxLoadAttempts;
+    let prefetched = this.takePrefetch();
 
     while (attempts < maxAttempts) {
-      const track = this.getRandomUnusedTrack();
+      const track = prefetched?.track ?? this.pickUnusedTrack();
 
       if (!track) {
         this.error = "No tracks available";
@@ -174,8 +842,8 @@ export class QuizEngine {
         return;
       }
 
-      // Check if file exists
-      const fileExists = await this.checkTrackExists(track);
+      // Check if file exists (already done for a prefetched track)
+      const fileExists = prefetched !== null || (await this.checkTrackExists(track));
       if (!fileExists) {
         console.warn(`Track file not found: ${track.location}`);
         this.usedTrackIds.add(track.id); // Mark as used so we don't try again
@@ -183,19 +851,75 @@ export class QuizEngine {
         continue;
       }
 
+      // A transition needs a second track to mix into
+      const isTransition = this.roundType === "transition";
+      const incomingTrack = isTransition ? this.pickIncomingTrack(track) : null;
+      if (isTransition && !incomingTrack) {
+        this.error = "Transitions need at least two tracks";
+        this.isLoading = false;
+        this.notifyListeners();
+        return;
+      }
+      if (incomingTrack && !(await this.checkTrackExists(incomingTrack))) {
+        console.warn(`Track file not found: ${incomingTrack.location}`);
+        this.usedTrackIds.add(incomingTrack.id);
+        attempts++;
+        continue;
+      }
+      const plan = incomingTrack ? planTransition(track, incomingTrack) : null;
+
       // Calculate start point
-      const startOffset = this.getRandomStartPoint(track.duration);
+      const startOffset =
+        plan?.outgoingOffset ?? prefetched?.startOffset ?? this.chooseExcerptStart(track);
+      prefetched = null;
+
+      const isProgressive = this.excerptMode === "progressive" && !isTransition;
+      const excerptLength = isProgressive ? PROGRESSIVE_STEPS[0] : settings.excerptLength;
 
       try {
-        await player.load(track.location, startOffset, 30);
+        if (incomingTrack && plan) {
+          await player.loadTransition(track.location, incomingTrack.location, plan);
+          if (settings.normalizeLoudness) {
+            this.applyNormalization(track);
+            this.applyNormalization(incomingTrack, true);
+          }
+        } else {
+          await player.load(track.location, startOffset, excerptLength);
+          if (settings.normalizeLoudness) {
+            this.applyNormalization(track);
+          }
+        }
         this.currentTrack = track;
+        this.incomingTrack = incomingTrack;
+        this.transitionPlan = plan;
+        // The excerpt waveform would only show the outgoing track of a transition
+        this.waveform = isTransition ? null : getWaveformCache().get(track) ?? null;
+        if (!this.waveform && !isTransition) {
+          this.loadWaveform(track);
+        }
         this.isRevealed = false;
+        this.clearAnswer();
+        if (isProgressive) {
+          this.progressiveStep = 0;
+        }
+        this.startSpeedRound();
+        this.speedTimer?.resetTrack();
+        // Without autoplay the countdown waits for playback to start
+        this.speedTimer?.setPaused(!settings.autoPlay);
+        if (this.roundAnswerMode === "multiple-choice") {
+          this.choices = this.buildChoices(track);
+        }
         this.usedTrackIds.add(track.id);
+        if (incomingTrack) {
+          this.usedTrackIds.add(incomingTrack.id);
+        }
         this.isLoading = false;
         this.notifyListeners();
 
-        // Auto-play
-        await player.play();
+        if (settings.autoPlay) {
+          await player.play();
+        }
+        this.prefetchNextTrack();
         return;
       } catch (err) {
         console.error(`Failed to load track: ${track.name}`, err);
@@ -206,21 +930,193 @@ export class QuizEngine {
 
     this.error = "Could not find a playable track";
     this.currentTrack = null;
+    this.incomingTrack = null;
+    this.transitionPlan = null;
+    this.waveform = null;
     this.isRevealed = false;
+    this.clearAnswer();
     this.isLoading = false;
     this.notifyListeners();
   }
 
   /**
-   * Reveal the current track info
+   * Reveal the current track info.
+   * Revealing a multiple-choice or typed round without answering counts as a miss.
    */
   reveal(): void {
     if (this.currentTrack) {
-      this.isRevealed = true;
+      const gaveUp = this.roundAnswerMode !== "reveal" && !this.isRevealed;
+      this.markRevealed();
+      if (gaveUp) {
+        this.completeRound("missed");
+      }
       this.notifyListeners();
     }
   }
 
+  /**
+   * Move the quiz on one step: reveal the current track, or load the next one
+   * once the answer is showing. Used by Enter, media keys and the global shortcut.
+   */
+  advance(): void {
+    if (this.isLoading) return;
+    if (this.currentTrack && !this.isRevealed) {
+      this.reveal();
+    } else {
+      this.nextTrack();
+    }
+  }
+
+  /**
+   * "I don't know yet": unlock the next progressive excerpt length and replay
+   * from the same start. At the longest length this gives up and reveals.
+   */
+  async extendExcerpt(): Promise<void> {
+    if (!this.currentTrack || this.progressiveStep === null || this.isRevealed) return;
+
+    if (this.progressiveStep >= PROGRESSIVE_STEPS.length - 1) {
+      this.reveal();
+      return;
+    }
+
+    this.progressiveStep += 1;
+    const player = getAudioPlayer();
+    player.setMaxPlayTime(PROGRESSIVE_STEPS[this.progressiveStep]);
+    player.seek(0);
+    this.notifyListeners();
+    await player.play();
+  }
+
+  /**
+   * Hints are for single-track rounds with a fixed excerpt (progressive
+   * excerpts have their own way to hear more), until the answer is shown
+   */
+  private get canUseHints(): boolean {
+    return (
+      this.currentTrack !== null &&
+      this.incomingTrack === null &&
+      this.progressiveStep === null &&
+      !this.isRevealed &&
+      !this.isLoading
+    );
+  }
+
+  /**
+   * "Hear more" before answering: jump to another section, extend the excerpt,
+   * or play the intro. Each hint taken lowers the points for the round.
+   */
+  async takeHint(hint: Hint): Promise<void> {
+    const track = this.currentTrack;
+    if (!track || !this.canUseHints) return;
+
+    const player = getAudioPlayer();
+    const { maxPlayTime } = player.getState();
+    // Nothing more to hear, e.g. at the end of a reversed section
+    if (hint === "extend" && maxPlayTime >= player.getAvailablePlayTime()) return;
+
+    this.hintsUsed = [...this.hintsUsed, hint];
+    this.notifyListeners();
+
+    switch (hint) {
+      case "extend":
+        player.setMaxPlayTime(maxPlayTime + HINT_EXTEND_SECONDS);
+        break;
+      case "other-section":
+        await this.moveExcerpt(track, this.chooseOtherSection(track), maxPlayTime);
+        break;
+      case "intro": {
+        const intro = getIntroExcerpt(track);
+        await this.moveExcerpt(track, intro.startOffset, intro.length);
+        break;
+      }
+    }
+    if (this.currentTrack?.id === track.id && !this.isRevealed) {
+      await player.play();
+    }
+  }
+
+  /**
+   * Pick a random start well away from the current excerpt, if the track allows
+   */
+  private chooseOtherSection(track: Track): number {
+    const { startOffset, maxPlayTime } = getAudioPlayer().getState();
+    const settings = getSettings();
+    // Cue starts would land on the same cue again
+    const options: StartPointOptions = {
+      strategy: "random",
+      snap: this.beatSnap,
+      windowStart: settings.startWindowStart / 100,
+      windowEnd: settings.startWindowEnd / 100,
+    };
+
+    let candidate = chooseStartPoint(track, options);
+    for (let i = 1; i < OTHER_SECTION_ATTEMPTS; i++) {
+      if (Math.abs(candidate - startOffset) >= maxPlayTime) break;
+      candidate = chooseStartPoint(track, options);
+    }
+    return candidate;
+  }
+
+  /**
+   * Reload the current track with a new excerpt for a hint
+   */
+  private async moveExcerpt(track: Track, startOffset: number, length: number): Promise<void> {
+    try {
+      await getAudioPlayer().load(track.location, startOffset, length);
+      if (getSettings().normalizeLoudness) {
+        this.applyNormalization(track);
+      }
+    } catch (err) {
+      console.error(`Failed to move the excerpt of ${track.name}:`, err);
+    }
+  }
+
+  /**
+   * Answer a multiple-choice round by picking one of the candidates
+   */
+  choose(trackId: string): void {
+    if (!this.currentTrack || !this.choices || this.isRevealed) return;
+    if (!this.choices.some((choice) => choice.id === trackId)) return;
+
+    this.chosenTrackId = trackId;
+    this.markRevealed();
+    this.completeRound(trackId === this.currentTrack.id ? "correct" : "missed");
+    this.notifyListeners();
+  }
+
+  /**
+   * Answer a typed-answer round and reveal the track
+   */
+  submitAnswer(answer: TypedAnswer): void {
+    if (!this.currentTrack || this.roundAnswerMode !== "typed" || this.isRevealed) return;
+
+    this.typedResult = gradeTypedAnswer(answer, this.currentTrack);
+    this.markRevealed();
+    this.completeRound(this.typedResult.grade);
+    this.notifyListeners();
+  }
+
+  /**
+   * Grade a revealed round yourself ("got it", "partially", "missed").
+   * A transition round is graded one track at a time and completes once
+   * both have a grade.
+   */
+  selfGrade(grade: Grade, side?: TransitionSide): void {
+    if (!this.currentTrack || this.roundAnswerMode !== "reveal" || !this.isRevealed) return;
+
+    if (this.incomingTrack) {
+      if (!side || this.grade !== null) return;
+      this.transitionGrades = { ...this.transitionGrades, [side]: grade };
+      const { outgoing, incoming } = this.transitionGrades;
+      if (outgoing && incoming) {
+        this.completeRound(combineGrades(outgoing, incoming));
+      }
+    } else {
+      this.completeRound(grade);
+    }
+    this.notifyListeners();
+  }
+
   /**
    * Toggle play/pause
    */
@@ -249,11 +1145,25 @@ export class QuizEngine {
     return this.tracks.size;
   }
 
+  /**
+   * Stop listening to the shared player and settings, e.g. when another engine
+   * replaces this one. The player itself is left alone.
+   */
+  detach(): void {
+    this.stopSpeedRound();
+    // Abandon a prefetch that is still being chosen without touching the player
+    this.prefetchGeneration += 1;
+    this.prefetch = null;
+    this.unsubscribePlayer();
+    this.unsubscribeSettings();
+    this.listeners.clear();
+  }
+
   /**
    * Clean up resources
    */
   destroy(): void {
+    this.detach();
     getAudioPlayer().destroy();
-    this.listeners.clear();
   }
 }
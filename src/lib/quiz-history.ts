@@ -0,0 +1,95 @@
+import { Track } from "./rekordbox-parser";
+import type { AnswerMode, Grade } from "./quiz-engine";
+import type { Hint } from "./hints";
+import { readAppDataJson, writeAppDataJson } from "./app-data";
+import { getTrackIdentity } from "./track-identity";
+
+/**
+ * A single quiz round as stored in the history file
+ */
+export interface QuizAttempt {
+  trackKey: string; // Stable identity from getTrackIdentity()
+  trackId: string; // Source-specific ID at the time of the attempt
+  timestamp: number; // When the round ended (ms)
+  startOffset: number; // Where the excerpt started (seconds into the track)
+  excerptLength: number; // Seconds of audio the round allowed
+  answerMode: AnswerMode;
+  grade: Grade | null; // Null when the round was skipped without grading
+  responseTime: number | null; // Seconds from play start to reveal
+  hints?: Hint[]; // Hints taken before answering, in order (missing from older entries)
+  titleMatch?: boolean; // Typed-answer rounds only: whether the title was right
+  artistMatch?: boolean; // Typed-answer rounds only: whether the artist was right
+}
+
+interface HistoryFile {
+  version: 1;
+  attempts: QuizAttempt[];
+}
+
+const HISTORY_FILE = "quiz-history.json";
+
+/**
+ * Persistent log of every quiz attempt, stored in the app data directory
+ */
+export class QuizHistory {
+  private attempts: QuizAttempt[] = [];
+  private loadPromise: Promise<void> | null = null;
+
+  /**
+   * Load saved attempts (only reads the file once)
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = readAppDataJson<HistoryFile>(HISTORY_FILE).then((file) => {
+        if (file?.version === 1) {
+          // Keep anything recorded while the file was loading
+          this.attempts = [...file.attempts, ...this.attempts];
+        }
+      });
+    }
+    return this.loadPromise;
+  }
+
+  private async save(): Promise<void> {
+    await this.load();
+    const file: HistoryFile = { version: 1, attempts: this.attempts };
+    await writeAppDataJson(HISTORY_FILE, file);
+  }
+
+  /**
+   * Append an attempt and persist the history
+   */
+  record(track: Track, attempt: Omit<QuizAttempt, "trackKey" | "trackId">): void {
+    this.attempts.push({
+      trackKey: getTrackIdentity(track),
+      trackId: track.id,
+      ...attempt,
+    });
+    this.save();
+  }
+
+  /**
+   * Get all attempts, oldest first
+   */
+  getAttempts(): readonly QuizAttempt[] {
+    return this.attempts;
+  }
+
+  /**
+   * Get the attempts for a single track, oldest first
+   */
+  getAttemptsForTrack(track: Track): QuizAttempt[] {
+    const key = getTrackIdentity(track);
+    return this.attempts.filter((attempt) => attempt.trackKey === key);
+  }
+}
+
+// Singleton instance
+let historyInstance: QuizHistory | null = null;
+
+export function getQuizHistory(): QuizHistory {
+  if (!historyInstance) {
+    historyInstance = new QuizHistory();
+  }
+  return historyInstance;
+}
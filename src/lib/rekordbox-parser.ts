@@ -1,6 +1,31 @@
 import { XMLParser } from "fast-xml-parser";
 import { readTextFile, exists } from "@tauri-apps/plugin-fs";
 import { homeDir } from "@tauri-apps/api/path";
+import type { TrackRule } from "./track-rules";
+
+export interface CuePoint {
+  name: string;
+  start: number; // In seconds
+  end?: number; // Loop end, in seconds
+  num: number; // Hot cue slot (0 = A), or -1 for a memory cue
+}
+
+export interface BeatGridMarker {
+  start: number; // In seconds
+  bpm: number;
+  meter: number; // Beats per bar
+  beat: number; // Position of this beat in its bar (1 = downbeat)
+}
+
+export type TrackColour =
+  | "pink"
+  | "red"
+  | "orange"
+  | "yellow"
+  | "green"
+  | "aqua"
+  | "blue"
+  | "purple";
 
 export interface Track {
   id: string;
@@ -12,6 +37,20 @@ export interface Track {
   bpm?: number;
   key?: string;
   genre?: string;
+  mixName?: string; // e.g. "Extended Mix"
+  remixer?: string;
+  composer?: string;
+  label?: string;
+  year?: number;
+  rating?: number; // Stars, 0 to 5
+  colour?: TrackColour; // Colour tag
+  comments?: string;
+  dateAdded?: string; // YYYY-MM-DD
+  playCount?: number;
+  bitrate?: number; // In kbps
+  kind?: string; // File format, e.g. "MP3 File"
+  cues?: CuePoint[]; // Memory and hot cues, sorted by position
+  beatGrid?: BeatGridMarker[]; // Tempo changes, sorted by position
 }
 
 export interface PlaylistNode {
@@ -19,7 +58,8 @@ export interface PlaylistNode {
   type: "folder" | "playlist";
   children: PlaylistNode[];
   trackIds: string[]; // Only for playlists
-  isSmartPlaylist?: boolean; // Smart playlists can't be evaluated from DB
+  isSmartPlaylist?: boolean; // Rule-based playlist read from the database
+  smartRule?: TrackRule; // Its rules, if the app can evaluate them; trackIds are the matches
 }
 
 export interface RekordboxLibrary {
@@ -27,6 +67,38 @@ export interface RekordboxLibrary {
   playlists: PlaylistNode;
 }
 
+// Colour tags by the value of the XML Colour attribute
+const XML_COLOURS: Record<string, TrackColour> = {
+  "0XFF007F": "pink",
+  "0XFF0000": "red",
+  "0XFFA500": "orange",
+  "0XFFFF00": "yellow",
+  "0X00FF00": "green",
+  "0X25FDE9": "aqua",
+  "0X0000FF": "blue",
+  "0X660099": "purple",
+};
+
+// The XML stores ratings as 0-255, in steps of 51 per star
+const XML_RATING_STEP = 51;
+
+/**
+ * An attribute as text, or undefined if it's missing or blank
+ */
+function optionalText(value: string | number | undefined): string | undefined {
+  const text = value === undefined ? "" : String(value).trim();
+  return text || undefined;
+}
+
+/**
+ * An attribute as a number, or undefined if it's missing or not a number
+ */
+function optionalNumber(value: string | number | undefined): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
 /**
  * Decode a Rekordbox file:// URL to a local path
  * e.g., "file://localhost/Users/russ/Music/track.mp3" -> "/Users/russ/Music/track.mp3"
@@ -39,11 +111,60 @@ function decodeLocation(location: string): string {
   return path;
 }
 
+/**
+ * Parse the POSITION_MARK children of a TRACK node.
+ * Only plain cues (Type 0) and loops (Type 4) are kept; fade and load markers
+ * are not useful excerpt starts.
+ */
+function parseCues(trackNode: Record<string, unknown>): CuePoint[] | undefined {
+  const marks = trackNode["POSITION_MARK"];
+  if (!Array.isArray(marks) || marks.length === 0) return undefined;
+
+  const cues: CuePoint[] = [];
+  for (const mark of marks as Record<string, string | number>[]) {
+    const type = String(mark["@_Type"] ?? "0");
+    if (type !== "0" && type !== "4") continue;
+    cues.push({
+      name: String(mark["@_Name"] ?? ""),
+      start: Number(mark["@_Start"] ?? 0),
+      end: mark["@_End"] !== undefined ? Number(mark["@_End"]) : undefined,
+      num: Number(mark["@_Num"] ?? -1),
+    });
+  }
+  cues.sort((a, b) => a.start - b.start);
+  return cues.length > 0 ? cues : undefined;
+}
+
+/**
+ * Parse the TEMPO children of a TRACK node into beat grid markers
+ * (Inizio = start, Metro = time signature, Battito = beat in bar)
+ */
+function parseBeatGrid(trackNode: Record<string, unknown>): BeatGridMarker[] | undefined {
+  const tempos = trackNode["TEMPO"];
+  if (!Array.isArray(tempos) || tempos.length === 0) return undefined;
+
+  const grid: BeatGridMarker[] = [];
+  for (const tempo of tempos as Record<string, string | number>[]) {
+    const bpm = Number(tempo["@_Bpm"] ?? 0);
+    if (!(bpm > 0)) continue;
+    const meter = parseInt(String(tempo["@_Metro"] ?? "4/4"), 10);
+    grid.push({
+      start: Number(tempo["@_Inizio"] ?? 0),
+      bpm,
+      meter: meter > 0 ? meter : 4,
+      beat: Number(tempo["@_Battito"] ?? 1),
+    });
+  }
+  grid.sort((a, b) => a.start - b.start);
+  return grid.length > 0 ? grid : undefined;
+}
+
 /**
  * Parse a TRACK node from the XML
  */
 function parseTrack(trackNode: Record<string, unknown>): Track {
   const attrs = trackNode as Record<string, string | number>;
+  const rating = optionalNumber(attrs["@_Rating"]);
   return {
     id: String(attrs["@_TrackID"] ?? ""),
     name: String(attrs["@_Name"] ?? "Unknown"),
@@ -54,6 +175,21 @@ function parseTrack(trackNode: Record<string, unknown>): Track {
     bpm: attrs["@_AverageBpm"] ? Number(attrs["@_AverageBpm"]) : undefined,
     key: attrs["@_Tonality"] ? String(attrs["@_Tonality"]) : undefined,
     genre: attrs["@_Genre"] ? String(attrs["@_Genre"]) : undefined,
+    mixName: optionalText(attrs["@_Mix"]),
+    remixer: optionalText(attrs["@_Remixer"]),
+    composer: optionalText(attrs["@_Composer"]),
+    label: optionalText(attrs["@_Label"]),
+    // Unknown years are exported as 0
+    year: optionalNumber(attrs["@_Year"]) || undefined,
+    rating: rating !== undefined ? Math.round(rating / XML_RATING_STEP) : undefined,
+    colour: XML_COLOURS[String(attrs["@_Colour"] ?? "").toUpperCase()],
+    comments: optionalText(attrs["@_Comments"]),
+    dateAdded: optionalText(attrs["@_DateAdded"]),
+    playCount: optionalNumber(attrs["@_PlayCount"]),
+    bitrate: optionalNumber(attrs["@_BitRate"]) || undefined,
+    kind: optionalText(attrs["@_Kind"]),
+    cues: parseCues(trackNode),
+    beatGrid: parseBeatGrid(trackNode),
   };
 }
 
@@ -130,8 +266,8 @@ export async function parseRekordboxXml(
     ignoreAttributes: false,
     attributeNamePrefix: "@_",
     isArray: (name) => {
-      // Ensure TRACK and NODE are always arrays for consistency
-      return name === "TRACK" || name === "NODE";
+      // Ensure repeated elements are always arrays for consistency
+      return name === "TRACK" || name === "NODE" || name === "POSITION_MARK" || name === "TEMPO";
     },
   });
 
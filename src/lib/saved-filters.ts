@@ -0,0 +1,95 @@
+import { RuleGroup, isTrackRule } from "./track-rules";
+
+/**
+ * A named filter, listed next to the playlists as a quiz pool
+ */
+export interface SavedFilter {
+  id: string;
+  name: string;
+  rule: RuleGroup;
+}
+
+export type SavedFiltersListener = (filters: SavedFilter[]) => void;
+
+const STORAGE_KEY_SAVED_FILTERS = "quiz-saved-filters";
+
+let savedFilters: SavedFilter[] | null = null;
+const listeners: Set<SavedFiltersListener> = new Set();
+
+/**
+ * Whether a stored entry is a filter that can be shown and evaluated
+ */
+function isSavedFilter(value: unknown): value is SavedFilter {
+  if (typeof value !== "object" || value === null) return false;
+  const filter = value as Record<string, unknown>;
+  return (
+    typeof filter.id === "string" &&
+    typeof filter.name === "string" &&
+    isTrackRule(filter.rule) &&
+    filter.rule.type === "group"
+  );
+}
+
+function loadSavedFilters(): SavedFilter[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY_SAVED_FILTERS) ?? "[]");
+    // Drop entries that can't be evaluated rather than failing on them later
+    return Array.isArray(saved) ? saved.filter(isSavedFilter) : [];
+  } catch {
+    // Corrupt value - start with no filters
+    return [];
+  }
+}
+
+function storeSavedFilters(filters: SavedFilter[]): void {
+  savedFilters = filters;
+  localStorage.setItem(STORAGE_KEY_SAVED_FILTERS, JSON.stringify(filters));
+  for (const listener of listeners) {
+    listener(filters);
+  }
+}
+
+/**
+ * Get the saved filters, in the order they were created
+ */
+export function getSavedFilters(): SavedFilter[] {
+  if (!savedFilters) {
+    savedFilters = loadSavedFilters();
+  }
+  return savedFilters;
+}
+
+/**
+ * Save a filter. A filter with the same ID is replaced; otherwise it's added
+ * with a new ID. Returns the filter as saved.
+ */
+export function saveFilter(filter: Omit<SavedFilter, "id"> & { id?: string }): SavedFilter {
+  const filters = getSavedFilters();
+  const existing = filter.id ? filters.find((saved) => saved.id === filter.id) : undefined;
+  const saved: SavedFilter = {
+    id: existing?.id ?? crypto.randomUUID(),
+    name: filter.name,
+    rule: filter.rule,
+  };
+  storeSavedFilters(
+    existing
+      ? filters.map((current) => (current.id === saved.id ? saved : current))
+      : [...filters, saved]
+  );
+  return saved;
+}
+
+/**
+ * Delete a saved filter
+ */
+export function deleteFilter(id: string): void {
+  storeSavedFilters(getSavedFilters().filter((filter) => filter.id !== id));
+}
+
+/**
+ * Subscribe to changes in the saved filters
+ */
+export function subscribeSavedFilters(listener: SavedFiltersListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
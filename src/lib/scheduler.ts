@@ -0,0 +1,172 @@
+import { Track } from "./rekordbox-parser";
+import type { Grade } from "./quiz-engine";
+import { readAppDataJson, writeAppDataJson } from "./app-data";
+import { getTrackIdentity } from "./track-identity";
+
+export type SelectionStrategy = "random" | "spaced-repetition";
+
+/**
+ * SM-2 style review state for a single track
+ */
+export interface TrackSchedule {
+  ease: number; // Interval multiplier, drops when the track is missed
+  interval: number; // Days until the next review
+  repetitions: number; // Consecutive successful reviews
+  lapses: number; // Times the track has been missed after being learned
+  due: number; // Timestamp (ms) when the track is next due
+  lastSeen: number; // Timestamp (ms) of the last review
+}
+
+interface ScheduleFile {
+  version: 1;
+  schedules: Record<string, TrackSchedule>;
+}
+
+const SCHEDULE_FILE = "track-schedule.json";
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+// A missed track comes back within the same practice session
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+// Selection weight of a track that has never been quizzed
+const NEW_TRACK_WEIGHT = 1;
+// Selection weight floor for tracks that aren't due yet
+const NOT_DUE_WEIGHT = 0.02;
+
+const GRADE_QUALITY: Record<Grade, number> = {
+  correct: 5,
+  partial: 3,
+  missed: 1,
+};
+
+/**
+ * Spaced-repetition scheduler that favours tracks that are overdue or often missed,
+ * and backs off on tracks that are consistently recognised.
+ * Schedules are persisted to the app data directory.
+ */
+export class SpacedRepetitionScheduler {
+  private schedules: Map<string, TrackSchedule> = new Map();
+  private loadPromise: Promise<void> | null = null;
+
+  /**
+   * Load saved schedules (only reads the file once)
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = readAppDataJson<ScheduleFile>(SCHEDULE_FILE).then((file) => {
+        if (file?.version === 1) {
+          this.schedules = new Map(Object.entries(file.schedules));
+        }
+      });
+    }
+    return this.loadPromise;
+  }
+
+  private save(): void {
+    const file: ScheduleFile = {
+      version: 1,
+      schedules: Object.fromEntries(this.schedules),
+    };
+    writeAppDataJson(SCHEDULE_FILE, file);
+  }
+
+  /**
+   * Get the saved schedule for a track, if it has been quizzed before
+   */
+  getSchedule(track: Track): TrackSchedule | undefined {
+    return this.schedules.get(getTrackIdentity(track));
+  }
+
+  /**
+   * How strongly a track should be preferred right now
+   */
+  private weight(track: Track, now: number): number {
+    const schedule = this.getSchedule(track);
+    if (!schedule) return NEW_TRACK_WEIGHT;
+
+    const intervalMs = Math.max(schedule.interval * DAY_MS, RELEARN_DELAY_MS);
+    const overdue = (now - schedule.due) / intervalMs;
+    // Low ease and repeated lapses mark a track as hard
+    const difficulty = 1 + schedule.lapses * 0.5 + (INITIAL_EASE - schedule.ease);
+
+    if (overdue >= 0) {
+      return (1 + overdue) * difficulty;
+    }
+    // Not due yet: fade in as the due date approaches
+    return NOT_DUE_WEIGHT * Math.max(0, 1 + overdue) * difficulty;
+  }
+
+  /**
+   * Pick a track, weighted towards overdue and difficult ones
+   */
+  pick(candidates: Track[]): Track | null {
+    if (candidates.length === 0) return null;
+
+    const now = Date.now();
+    const weights = candidates.map((track) => this.weight(track, now));
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    if (total <= 0) {
+      return candidates[Math.floor(Math.random() * candidates.length)];
+    }
+
+    let target = Math.random() * total;
+    for (let i = 0; i < candidates.length; i++) {
+      target -= weights[i];
+      if (target <= 0) return candidates[i];
+    }
+    return candidates[candidates.length - 1];
+  }
+
+  /**
+   * Update a track's schedule after it has been graded.
+   * Waits for saved schedules so the write can't clobber them.
+   */
+  async record(track: Track, grade: Grade): Promise<void> {
+    await this.load();
+
+    const now = Date.now();
+    const quality = GRADE_QUALITY[grade];
+    const previous = this.getSchedule(track);
+    const schedule: TrackSchedule = previous
+      ? { ...previous }
+      : { ease: INITIAL_EASE, interval: 0, repetitions: 0, lapses: 0, due: now, lastSeen: now };
+
+    if (quality < 3) {
+      if (schedule.repetitions > 0) {
+        schedule.lapses += 1;
+      }
+      schedule.repetitions = 0;
+      schedule.interval = 0;
+      schedule.due = now + RELEARN_DELAY_MS;
+    } else {
+      schedule.repetitions += 1;
+      if (schedule.repetitions === 1) {
+        schedule.interval = 1;
+      } else if (schedule.repetitions === 2) {
+        schedule.interval = 6;
+      } else {
+        schedule.interval = Math.round(schedule.interval * schedule.ease);
+      }
+      schedule.due = now + schedule.interval * DAY_MS;
+    }
+
+    schedule.ease = Math.max(
+      MIN_EASE,
+      schedule.ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)
+    );
+    schedule.lastSeen = now;
+
+    this.schedules.set(getTrackIdentity(track), schedule);
+    this.save();
+  }
+}
+
+// Singleton instance
+let schedulerInstance: SpacedRepetitionScheduler | null = null;
+
+export function getScheduler(): SpacedRepetitionScheduler {
+  if (!schedulerInstance) {
+    schedulerInstance = new SpacedRepetitionScheduler();
+  }
+  return schedulerInstance;
+}
@@ -0,0 +1,123 @@
+import type { Grade } from "./quiz-engine";
+
+export interface RoundResult {
+  grade: Grade;
+  responseTime: number | null; // Seconds from play start to reveal
+  unlockedSeconds?: number; // Audio needed in progressive mode
+  difficulty?: number; // Multiplier for difficulty filters
+  hintsUsed?: number; // "Hear more" hints taken before answering
+}
+
+export interface SessionStats {
+  startedAt: number | null; // When the first round started playing (ms)
+  endedAt: number | null; // When the last round was graded (ms)
+  rounds: number; // Graded rounds
+  correct: number;
+  partial: number;
+  missed: number;
+  score: number;
+  streak: number; // Consecutive correct answers
+  bestStreak: number;
+  accuracy: number; // 0–1, partial answers count half
+  averageResponseTime: number | null; // Seconds
+  timedRounds: number; // Rounds with a measurable response time
+  hintsUsed: number; // Total hints taken
+  hintedRounds: number; // Rounds that needed at least one hint
+}
+
+const GRADE_POINTS: Record<Grade, number> = {
+  correct: 100,
+  partial: 50,
+  missed: 0,
+};
+
+// Lowest multiplier for needing the whole progressive excerpt
+const MIN_PROGRESSIVE_MULTIPLIER = 0.25;
+
+/**
+ * Multiplier for how much audio a progressive round needed.
+ * Each doubling of the excerpt costs 15%: 1s is full points, 30s about a quarter.
+ */
+function progressiveMultiplier(unlockedSeconds: number): number {
+  const doublings = Math.log2(Math.max(1, unlockedSeconds));
+  return Math.max(MIN_PROGRESSIVE_MULTIPLIER, 1 - 0.15 * doublings);
+}
+
+// Share of the points kept for each hint taken, and the lowest it can go
+const HINT_PENALTY = 0.75;
+const MIN_HINT_MULTIPLIER = 0.25;
+
+/**
+ * Multiplier for the hints a round needed: each one costs a quarter of what's left
+ */
+export function hintMultiplier(hintsUsed: number): number {
+  return Math.max(MIN_HINT_MULTIPLIER, Math.pow(HINT_PENALTY, hintsUsed));
+}
+
+/**
+ * Points earned for a single round
+ */
+export function scoreRound(round: RoundResult): number {
+  let points = GRADE_POINTS[round.grade];
+  if (round.unlockedSeconds !== undefined) {
+    points *= progressiveMultiplier(round.unlockedSeconds);
+  }
+  if (round.difficulty !== undefined) {
+    points *= round.difficulty;
+  }
+  if (round.hintsUsed !== undefined) {
+    points *= hintMultiplier(round.hintsUsed);
+  }
+  return Math.round(points);
+}
+
+/**
+ * Empty stats for a new session
+ */
+export function createSessionStats(): SessionStats {
+  return {
+    startedAt: null,
+    endedAt: null,
+    rounds: 0,
+    correct: 0,
+    partial: 0,
+    missed: 0,
+    score: 0,
+    streak: 0,
+    bestStreak: 0,
+    accuracy: 0,
+    averageResponseTime: null,
+    timedRounds: 0,
+    hintsUsed: 0,
+    hintedRounds: 0,
+  };
+}
+
+/**
+ * Return new session stats with a graded round added
+ */
+export function addRoundToSession(
+  stats: SessionStats,
+  round: RoundResult,
+  points: number
+): SessionStats {
+  const next: SessionStats = { ...stats };
+  next.rounds += 1;
+  next[round.grade] += 1;
+  next.score += points;
+  next.streak = round.grade === "correct" ? stats.streak + 1 : 0;
+  next.bestStreak = Math.max(next.bestStreak, next.streak);
+  next.accuracy = (next.correct + next.partial * 0.5) / next.rounds;
+  if (round.hintsUsed) {
+    next.hintsUsed += round.hintsUsed;
+    next.hintedRounds += 1;
+  }
+
+  if (round.responseTime !== null) {
+    const previousTotal = (stats.averageResponseTime ?? 0) * stats.timedRounds;
+    next.timedRounds += 1;
+    next.averageResponseTime = (previousTotal + round.responseTime) / next.timedRounds;
+  }
+
+  return next;
+}
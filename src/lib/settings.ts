@@ -0,0 +1,146 @@
+export interface QuizSettings {
+  excerptLength: number; // Seconds of audio per track in fixed excerpt mode
+  startWindowStart: number; // Earliest random start, as a percentage of the track
+  startWindowEnd: number; // Latest random start, as a percentage of the track
+  maxLoadAttempts: number; // Tracks to try before giving up when files are missing
+  autoPlay: boolean; // Start playing as soon as a track has loaded
+  normalizeLoudness: boolean; // Bring every track to the same loudness
+  speedTrackTimeLimit: number; // Seconds to answer each track in a speed round
+  speedRoundTimeLimit: number; // Seconds for a timed speed round
+  speedAdvanceDelay: number; // Seconds to show the answer before auto-advancing
+  globalShortcut: string; // System-wide reveal/next shortcut, e.g. "CmdOrCtrl+Shift+Enter"; empty for none
+  outputDeviceId: string; // Audio output for the quiz; empty for the system default
+}
+
+export type SettingsErrors = Partial<Record<keyof QuizSettings, string>>;
+
+export type SettingsListener = (settings: QuizSettings) => void;
+
+export const DEFAULT_SETTINGS: QuizSettings = {
+  excerptLength: 30,
+  startWindowStart: 25,
+  startWindowEnd: 75,
+  maxLoadAttempts: 10,
+  autoPlay: true,
+  normalizeLoudness: true,
+  speedTrackTimeLimit: 10,
+  speedRoundTimeLimit: 180,
+  speedAdvanceDelay: 2.5,
+  globalShortcut: "",
+  outputDeviceId: "",
+};
+
+const STORAGE_KEY_SETTINGS = "quiz-settings";
+
+// Allowed range for each numeric setting
+const NUMBER_RANGES: Partial<Record<keyof QuizSettings, [number, number]>> = {
+  excerptLength: [1, 300],
+  startWindowStart: [0, 100],
+  startWindowEnd: [0, 100],
+  maxLoadAttempts: [1, 100],
+  speedTrackTimeLimit: [1, 120],
+  speedRoundTimeLimit: [10, 3600],
+  speedAdvanceDelay: [0, 30],
+};
+
+/**
+ * Check settings for out-of-range or inconsistent values.
+ * Returns an error message per invalid field; an empty object means valid.
+ */
+export function validateSettings(settings: QuizSettings): SettingsErrors {
+  const errors: SettingsErrors = {};
+
+  for (const [key, range] of Object.entries(NUMBER_RANGES)) {
+    const field = key as keyof QuizSettings;
+    const value = settings[field];
+    const [min, max] = range;
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      errors[field] = "Enter a number";
+    } else if (value < min || value > max) {
+      errors[field] = `Must be between ${min} and ${max}`;
+    }
+  }
+
+  if (!Number.isInteger(settings.maxLoadAttempts) && !errors.maxLoadAttempts) {
+    errors.maxLoadAttempts = "Must be a whole number";
+  }
+
+  if (
+    !errors.startWindowStart &&
+    !errors.startWindowEnd &&
+    settings.startWindowStart > settings.startWindowEnd
+  ) {
+    errors.startWindowEnd = "Must not be before the start of the window";
+  }
+
+  return errors;
+}
+
+/**
+ * Read saved settings, falling back to the default for anything missing or invalid
+ */
+function loadSettings(): QuizSettings {
+  let saved: Partial<QuizSettings> = {};
+  try {
+    saved = JSON.parse(localStorage.getItem(STORAGE_KEY_SETTINGS) ?? "{}");
+  } catch {
+    // Corrupt settings - use defaults
+  }
+
+  const settings: QuizSettings = { ...DEFAULT_SETTINGS };
+  for (const key of Object.keys(DEFAULT_SETTINGS) as (keyof QuizSettings)[]) {
+    if (typeof saved[key] === typeof DEFAULT_SETTINGS[key]) {
+      Object.assign(settings, { [key]: saved[key] });
+    }
+  }
+
+  const errors = validateSettings(settings);
+  for (const key of Object.keys(errors) as (keyof QuizSettings)[]) {
+    Object.assign(settings, { [key]: DEFAULT_SETTINGS[key] });
+  }
+  // The start window is validated as a pair
+  if (settings.startWindowStart > settings.startWindowEnd) {
+    settings.startWindowStart = DEFAULT_SETTINGS.startWindowStart;
+    settings.startWindowEnd = DEFAULT_SETTINGS.startWindowEnd;
+  }
+  return settings;
+}
+
+let currentSettings: QuizSettings | null = null;
+const listeners: Set<SettingsListener> = new Set();
+
+/**
+ * Get the current settings. Read at the point of use so changes apply immediately.
+ */
+export function getSettings(): QuizSettings {
+  if (!currentSettings) {
+    currentSettings = loadSettings();
+  }
+  return currentSettings;
+}
+
+/**
+ * Validate, save and apply new settings.
+ * Returns the validation errors; nothing is saved unless there are none.
+ */
+export function saveSettings(settings: QuizSettings): SettingsErrors {
+  const errors = validateSettings(settings);
+  if (Object.keys(errors).length > 0) {
+    return errors;
+  }
+
+  currentSettings = { ...settings };
+  localStorage.setItem(STORAGE_KEY_SETTINGS, JSON.stringify(currentSettings));
+  for (const listener of listeners) {
+    listener(currentSettings);
+  }
+  return errors;
+}
+
+/**
+ * Subscribe to settings changes
+ */
+export function subscribeSettings(listener: SettingsListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
@@ -0,0 +1,134 @@
+export type SpeedMode = "off" | "countdown" | "timed-round";
+
+export interface SpeedRoundConfig {
+  trackTimeLimit: number; // Seconds to answer each track
+  roundTimeLimit: number | null; // Seconds for the whole round, null for no limit
+  advanceDelay: number; // Seconds to show the answer before moving on
+}
+
+export interface QuizTimer {
+  trackTimeLeft: number; // Seconds
+  trackTimeLimit: number; // Seconds
+  roundTimeLeft: number | null; // Seconds, null when the round has no limit
+  isPaused: boolean;
+}
+
+export interface SpeedRoundCallbacks {
+  onTick: () => void;
+  onTrackExpired: () => void;
+  onRoundExpired: () => void;
+}
+
+// How often the countdowns update (ms)
+const TICK_INTERVAL = 100;
+
+/**
+ * Countdown timers for speed rounds: one per track, and optionally one for the
+ * whole round. The quiz engine decides when each countdown is running.
+ */
+export class SpeedRoundTimer {
+  private config: SpeedRoundConfig;
+  private callbacks: SpeedRoundCallbacks;
+  private trackTimeLeft: number;
+  private roundTimeLeft: number | null;
+  private trackRunning = false;
+  private roundRunning = false;
+  private paused = false;
+  private interval: number | null = null;
+  private lastTick = 0;
+
+  constructor(config: SpeedRoundConfig, callbacks: SpeedRoundCallbacks) {
+    this.config = config;
+    this.callbacks = callbacks;
+    this.trackTimeLeft = config.trackTimeLimit;
+    this.roundTimeLeft = config.roundTimeLimit;
+  }
+
+  /**
+   * Get the countdown state for the UI
+   */
+  getState(): QuizTimer {
+    return {
+      trackTimeLeft: this.trackTimeLeft,
+      trackTimeLimit: this.config.trackTimeLimit,
+      roundTimeLeft: this.roundTimeLeft,
+      isPaused: this.paused,
+    };
+  }
+
+  get advanceDelay(): number {
+    return this.config.advanceDelay;
+  }
+
+  /**
+   * Restart the per-track countdown for a new track
+   */
+  resetTrack(): void {
+    this.trackTimeLeft = this.config.trackTimeLimit;
+  }
+
+  /**
+   * Set which countdowns are running. The round countdown keeps going
+   * between tracks; the track countdown stops once the answer is shown.
+   */
+  setRunning(track: boolean, round: boolean): void {
+    this.trackRunning = track;
+    this.roundRunning = round;
+    this.updateInterval();
+  }
+
+  /**
+   * Pause or resume both countdowns, e.g. when playback is paused
+   */
+  setPaused(paused: boolean): void {
+    this.paused = paused;
+    this.updateInterval();
+  }
+
+  private updateInterval(): void {
+    const shouldRun = !this.paused && (this.trackRunning || this.roundRunning);
+    if (shouldRun && this.interval === null) {
+      this.lastTick = performance.now();
+      this.interval = window.setInterval(() => this.tick(), TICK_INTERVAL);
+    } else if (!shouldRun && this.interval !== null) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  private tick(): void {
+    const now = performance.now();
+    const elapsed = (now - this.lastTick) / 1000;
+    this.lastTick = now;
+
+    if (this.roundRunning && this.roundTimeLeft !== null) {
+      this.roundTimeLeft = Math.max(0, this.roundTimeLeft - elapsed);
+      if (this.roundTimeLeft === 0) {
+        this.setRunning(false, false);
+        this.callbacks.onRoundExpired();
+        return;
+      }
+    }
+
+    if (this.trackRunning) {
+      this.trackTimeLeft = Math.max(0, this.trackTimeLeft - elapsed);
+      if (this.trackTimeLeft === 0) {
+        this.setRunning(false, this.roundRunning);
+        this.callbacks.onTrackExpired();
+        return;
+      }
+    }
+
+    this.callbacks.onTick();
+  }
+
+  /**
+   * Stop all countdowns
+   */
+  destroy(): void {
+    if (this.interval !== null) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+}
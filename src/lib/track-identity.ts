@@ -0,0 +1,19 @@
+import { Track } from "./rekordbox-parser";
+
+/**
+ * Get a stable identity for a track that survives switching between the XML
+ * and database sources, whose track IDs differ.
+ *
+ * The file location is the same in both sources, but macOS paths can come back
+ * in either Unicode normalization form, so they are normalized to NFC.
+ * Tracks without a location fall back to their artist, title and length.
+ */
+export function getTrackIdentity(track: Track): string {
+  if (track.location) {
+    return `file:${track.location.normalize("NFC")}`;
+  }
+
+  const artist = track.artist.normalize("NFC").trim().toLowerCase();
+  const name = track.name.normalize("NFC").trim().toLowerCase();
+  return `meta:${artist}|${name}|${Math.round(track.duration)}`;
+}
@@ -0,0 +1,361 @@
+import { Track } from "./rekordbox-parser";
+
+export type TextField =
+  | "title"
+  | "artist"
+  | "album"
+  | "genre"
+  | "key"
+  | "label"
+  | "remixer"
+  | "composer"
+  | "mixName"
+  | "comments"
+  | "kind"
+  | "colour";
+
+export type NumberField = "bpm" | "year" | "rating" | "playCount" | "duration" | "bitrate";
+
+export type DateField = "dateAdded";
+
+export type RuleField = TextField | NumberField | DateField;
+
+// Operators each kind of rule accepts, in the order the filter builder offers them
+export const TEXT_OPERATORS = [
+  "is",
+  "is-not",
+  "contains",
+  "not-contains",
+  "starts-with",
+  "ends-with",
+] as const;
+export const LIST_OPERATORS = ["in", "not-in"] as const;
+export const NUMBER_OPERATORS = [
+  "is",
+  "is-not",
+  "at-least",
+  "at-most",
+  "greater",
+  "less",
+  "between",
+] as const;
+export const DATE_OPERATORS = ["after", "before", "is", "is-not", "between"] as const;
+export const RECENT_OPERATORS = ["in-last", "not-in-last"] as const;
+export const TIME_UNITS = ["day", "week", "month", "year"] as const;
+
+export type TextOperator = (typeof TEXT_OPERATORS)[number];
+export type ListOperator = (typeof LIST_OPERATORS)[number];
+export type NumberOperator = (typeof NUMBER_OPERATORS)[number];
+export type DateOperator = (typeof DATE_OPERATORS)[number];
+export type RecentOperator = (typeof RECENT_OPERATORS)[number];
+export type TimeUnit = (typeof TIME_UNITS)[number];
+
+/**
+ * Whether a string is one of a list of literals, e.g. an operator read from storage
+ */
+export function isOneOf<T extends string>(list: readonly T[], value: string): value is T {
+  return (list as readonly string[]).includes(value);
+}
+
+export interface TextRule {
+  type: "text";
+  field: TextField;
+  operator: TextOperator;
+  value: string; // Compared ignoring case
+}
+
+export interface ListRule {
+  type: "list";
+  field: TextField;
+  operator: ListOperator;
+  values: string[]; // Compared ignoring case, e.g. keys ["8A", "9A"]
+}
+
+export interface NumberRule {
+  type: "number";
+  field: NumberField;
+  operator: NumberOperator;
+  value: number;
+  to?: number; // Upper bound for "between", inclusive
+}
+
+export interface DateRule {
+  type: "date";
+  field: DateField;
+  operator: DateOperator;
+  value: string; // YYYY-MM-DD
+  to?: string; // Upper bound for "between", inclusive
+}
+
+export interface RecentRule {
+  type: "recent";
+  field: DateField;
+  operator: RecentOperator;
+  amount: number;
+  unit: TimeUnit;
+}
+
+export interface RuleGroup {
+  type: "group";
+  match: "all" | "any";
+  rules: TrackRule[];
+}
+
+/**
+ * A condition on a track's metadata, or a group of them. Smart playlists
+ * from the database and filters built in the app both take this form.
+ */
+export type TrackRule = TextRule | ListRule | NumberRule | DateRule | RecentRule | RuleGroup;
+
+export const RULE_FIELDS: Record<RuleField, { label: string; type: "text" | "number" | "date" }> = {
+  title: { label: "Title", type: "text" },
+  artist: { label: "Artist", type: "text" },
+  album: { label: "Album", type: "text" },
+  genre: { label: "Genre", type: "text" },
+  key: { label: "Key", type: "text" },
+  label: { label: "Label", type: "text" },
+  remixer: { label: "Remixer", type: "text" },
+  composer: { label: "Composer", type: "text" },
+  mixName: { label: "Mix name", type: "text" },
+  comments: { label: "Comments", type: "text" },
+  kind: { label: "File kind", type: "text" },
+  colour: { label: "Colour", type: "text" },
+  bpm: { label: "BPM", type: "number" },
+  year: { label: "Year", type: "number" },
+  rating: { label: "Rating", type: "number" },
+  playCount: { label: "Play count", type: "number" },
+  duration: { label: "Length (s)", type: "number" },
+  bitrate: { label: "Bitrate", type: "number" },
+  dateAdded: { label: "Date added", type: "date" },
+};
+
+// Operators by kind of rule, for checking rules read from storage
+const RULE_OPERATORS: Record<Exclude<TrackRule["type"], "group">, readonly string[]> = {
+  text: TEXT_OPERATORS,
+  list: LIST_OPERATORS,
+  number: NUMBER_OPERATORS,
+  date: DATE_OPERATORS,
+  recent: RECENT_OPERATORS,
+};
+
+// Field type each kind of rule applies to
+const RULE_FIELD_TYPES: Record<Exclude<TrackRule["type"], "group">, "text" | "number" | "date"> = {
+  text: "text",
+  list: "text",
+  number: "number",
+  date: "date",
+  recent: "date",
+};
+
+/**
+ * Whether a value, e.g. one read back from storage, is a rule that can be
+ * evaluated: known fields and operators, and values of the right type
+ */
+export function isTrackRule(value: unknown): value is TrackRule {
+  if (typeof value !== "object" || value === null) return false;
+  const rule = value as Record<string, unknown>;
+
+  if (rule.type === "group") {
+    return (
+      (rule.match === "all" || rule.match === "any") &&
+      Array.isArray(rule.rules) &&
+      rule.rules.every(isTrackRule)
+    );
+  }
+
+  const type = rule.type as Exclude<TrackRule["type"], "group">;
+  if (typeof type !== "string" || !Object.keys(RULE_OPERATORS).includes(type)) return false;
+  if (typeof rule.field !== "string" || !Object.keys(RULE_FIELDS).includes(rule.field)) {
+    return false;
+  }
+  if (RULE_FIELDS[rule.field as RuleField].type !== RULE_FIELD_TYPES[type]) return false;
+  if (typeof rule.operator !== "string" || !RULE_OPERATORS[type].includes(rule.operator)) {
+    return false;
+  }
+
+  switch (type) {
+    case "text":
+      return typeof rule.value === "string";
+    case "list":
+      return Array.isArray(rule.values) && rule.values.every((v) => typeof v === "string");
+    case "number":
+      return (
+        Number.isFinite(rule.value) && (rule.to === undefined || Number.isFinite(rule.to))
+      );
+    case "date":
+      return (
+        typeof rule.value === "string" && (rule.to === undefined || typeof rule.to === "string")
+      );
+    case "recent":
+      return (
+        Number.isFinite(rule.amount) &&
+        typeof rule.unit === "string" &&
+        isOneOf(TIME_UNITS, rule.unit)
+      );
+  }
+}
+
+const TEXT_VALUES: Record<TextField, (track: Track) => string | undefined> = {
+  title: (track) => track.name,
+  artist: (track) => track.artist,
+  album: (track) => track.album,
+  genre: (track) => track.genre,
+  key: (track) => track.key,
+  label: (track) => track.label,
+  remixer: (track) => track.remixer,
+  composer: (track) => track.composer,
+  mixName: (track) => track.mixName,
+  comments: (track) => track.comments,
+  kind: (track) => track.kind,
+  colour: (track) => track.colour,
+};
+
+const NUMBER_VALUES: Record<NumberField, (track: Track) => number | undefined> = {
+  bpm: (track) => track.bpm,
+  year: (track) => track.year,
+  rating: (track) => track.rating,
+  playCount: (track) => track.playCount,
+  duration: (track) => track.duration || undefined,
+  bitrate: (track) => track.bitrate,
+};
+
+const DATE_VALUES: Record<DateField, (track: Track) => string | undefined> = {
+  dateAdded: (track) => track.dateAdded,
+};
+
+function matchesList(rule: ListRule, track: Track): boolean {
+  const value = (TEXT_VALUES[rule.field](track) ?? "").toLowerCase();
+  const found = rule.values.some((candidate) => candidate.toLowerCase() === value);
+  return rule.operator === "in" ? found : !found;
+}
+
+function matchesText(rule: TextRule, track: Track): boolean {
+  const value = (TEXT_VALUES[rule.field](track) ?? "").toLowerCase();
+  const target = rule.value.toLowerCase();
+  switch (rule.operator) {
+    case "is":
+      return value === target;
+    case "is-not":
+      return value !== target;
+    case "contains":
+      return value.includes(target);
+    case "not-contains":
+      return !value.includes(target);
+    case "starts-with":
+      return value.startsWith(target);
+    case "ends-with":
+      return value.endsWith(target);
+  }
+}
+
+/**
+ * Tracks without the value only match "is not"
+ */
+function matchesNumber(rule: NumberRule, track: Track): boolean {
+  const value = NUMBER_VALUES[rule.field](track);
+  if (value === undefined) return rule.operator === "is-not";
+  // Fractional BPMs and durations count as the whole number shown
+  const shown = Math.round(value);
+  switch (rule.operator) {
+    case "is":
+      return shown === rule.value;
+    case "is-not":
+      return shown !== rule.value;
+    case "greater":
+      return value > rule.value;
+    case "less":
+      return value < rule.value;
+    case "at-least":
+      return value >= rule.value;
+    case "at-most":
+      return value <= rule.value;
+    case "between":
+      return value >= rule.value && value <= (rule.to ?? rule.value);
+  }
+}
+
+function matchesDate(rule: DateRule, track: Track): boolean {
+  const value = DATE_VALUES[rule.field](track);
+  if (!value) return rule.operator === "is-not";
+  // YYYY-MM-DD dates compare correctly as strings
+  switch (rule.operator) {
+    case "is":
+      return value === rule.value;
+    case "is-not":
+      return value !== rule.value;
+    case "after":
+      return value > rule.value;
+    case "before":
+      return value < rule.value;
+    case "between":
+      return value >= rule.value && value <= (rule.to ?? rule.value);
+  }
+}
+
+/**
+ * The date `amount` units before `now`, as YYYY-MM-DD
+ */
+function dateBefore(now: Date, amount: number, unit: TimeUnit): string {
+  const date = new Date(now);
+  switch (unit) {
+    case "day":
+      date.setDate(date.getDate() - amount);
+      break;
+    case "week":
+      date.setDate(date.getDate() - amount * 7);
+      break;
+    case "month":
+      date.setMonth(date.getMonth() - amount);
+      break;
+    case "year":
+      date.setFullYear(date.getFullYear() - amount);
+      break;
+  }
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function matchesRecent(rule: RecentRule, track: Track, now: Date): boolean {
+  const value = DATE_VALUES[rule.field](track);
+  if (!value) return rule.operator === "not-in-last";
+  const recent = value >= dateBefore(now, rule.amount, rule.unit);
+  return rule.operator === "in-last" ? recent : !recent;
+}
+
+/**
+ * Whether a track meets a rule. An empty group matches every track.
+ * @param now - Reference time for "in the last" rules
+ */
+export function matchesRule(rule: TrackRule, track: Track, now: Date = new Date()): boolean {
+  switch (rule.type) {
+    case "text":
+      return matchesText(rule, track);
+    case "list":
+      return matchesList(rule, track);
+    case "number":
+      return matchesNumber(rule, track);
+    case "date":
+      return matchesDate(rule, track);
+    case "recent":
+      return matchesRecent(rule, track, now);
+    case "group":
+      return rule.match === "all"
+        ? rule.rules.every((child) => matchesRule(child, track, now))
+        : rule.rules.length === 0 || rule.rules.some((child) => matchesRule(child, track, now));
+  }
+}
+
+/**
+ * IDs of the tracks that meet a rule, in library order
+ */
+export function findMatchingTracks(rule: TrackRule, tracks: Iterable<Track>): string[] {
+  const now = new Date();
+  const ids: string[] = [];
+  for (const track of tracks) {
+    if (matchesRule(rule, track, now)) {
+      ids.push(track.id);
+    }
+  }
+  return ids;
+}
@@ -0,0 +1,97 @@
+import { Track } from "./rekordbox-parser";
+import { snapToGrid } from "./beat-grid";
+import { DifficultyFilters } from "./difficulty";
+
+/**
+ * How a transition round plays: the outro of one track blending into the
+ * intro of another, like a DJ mix
+ */
+export interface TransitionPlan {
+  outgoingOffset: number; // Where the outgoing track starts (seconds)
+  incomingOffset: number; // Where the incoming track starts (seconds)
+  crossfadeStart: number; // Seconds into the round when the blend starts
+  crossfadeLength: number; // Seconds
+  incomingRate: number; // Playback rate of the incoming track, to match tempos
+  length: number; // Length of the whole round (seconds)
+}
+
+// Phrase lengths of the blend, in bars of the outgoing track
+const LEAD_BARS = 8; // Outgoing track on its own
+const CROSSFADE_BARS = 8;
+const TAIL_BARS = 8; // Incoming track on its own
+// Bars left unplayed at the very end of the outgoing track
+const OUTRO_MARGIN_BARS = 1;
+// Tempo used for tracks without a BPM
+const DEFAULT_BPM = 120;
+// Largest tempo change for matching, like a CDJ's ±8% pitch range
+export const MAX_TEMPO_ADJUST = 0.08;
+
+/**
+ * Whether two tracks are close enough in tempo to be beatmatched
+ */
+export function canTempoMatch(outgoing: Track, incoming: Track): boolean {
+  if (!outgoing.bpm || !incoming.bpm) return false;
+  return Math.abs(outgoing.bpm / incoming.bpm - 1) <= MAX_TEMPO_ADJUST;
+}
+
+/**
+ * Playback rate that brings the incoming track to the outgoing track's tempo,
+ * or 1 if the tempos are unknown or too far apart
+ */
+export function tempoMatchRate(outgoing: Track, incoming: Track): number {
+  if (!outgoing.bpm || !incoming.bpm || !canTempoMatch(outgoing, incoming)) return 1;
+  return outgoing.bpm / incoming.bpm;
+}
+
+/**
+ * Pick a track to mix into the outgoing one, preferring tracks that can be
+ * beatmatched with it
+ */
+export function chooseIncomingTrack(outgoing: Track, candidates: Track[]): Track | null {
+  const others = candidates.filter((track) => track.id !== outgoing.id);
+  const matching = others.filter((track) => canTempoMatch(outgoing, track));
+  const pool = matching.length > 0 ? matching : others;
+  if (pool.length === 0) return null;
+  return pool[Math.floor(Math.random() * pool.length)];
+}
+
+/**
+ * The difficulty filters that apply to a transition round.
+ * Reversed playback isn't used, since it would run the blend backwards.
+ */
+export function transitionFilters(filters: DifficultyFilters): DifficultyFilters {
+  return { ...filters, reversed: false };
+}
+
+/**
+ * Plan a blend from the outro of one track into the intro of another.
+ * The outgoing track keeps playing (silently) until the round ends, so it
+ * starts early enough to last the whole round.
+ */
+export function planTransition(outgoing: Track, incoming: Track): TransitionPlan {
+  const beatsPerBar = outgoing.beatGrid?.[0]?.meter || 4;
+  const barLength = (beatsPerBar * 60) / (outgoing.bpm || DEFAULT_BPM);
+
+  const crossfadeStart = LEAD_BARS * barLength;
+  const crossfadeLength = CROSSFADE_BARS * barLength;
+  const length = crossfadeStart + crossfadeLength + TAIL_BARS * barLength;
+
+  const latestStart = Math.max(0, outgoing.duration - length - OUTRO_MARGIN_BARS * barLength);
+  let outgoingOffset = snapToGrid(latestStart, outgoing.beatGrid, "downbeat", outgoing.duration);
+  if (outgoingOffset > latestStart) {
+    // Snapped forward; step back a bar so the round still fits
+    outgoingOffset = Math.max(0, outgoingOffset - barLength);
+  }
+
+  // Mix in on the incoming track's first downbeat
+  const incomingOffset = snapToGrid(0, incoming.beatGrid, "downbeat", incoming.duration);
+
+  return {
+    outgoingOffset,
+    incomingOffset,
+    crossfadeStart,
+    crossfadeLength,
+    incomingRate: tempoMatchRate(outgoing, incoming),
+    length,
+  };
+}
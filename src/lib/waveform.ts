@@ -0,0 +1,207 @@
+import { Track } from "./rekordbox-parser";
+import { decodeForAnalysis, getReversedSection } from "./audio-buffer";
+import { getSettings } from "./settings";
+import { getTrackIdentity } from "./track-identity";
+
+/**
+ * Min/max peaks of a whole track at a fixed resolution
+ */
+export interface WaveformData {
+  duration: number; // Seconds
+  bucketsPerSecond: number;
+  min: Float32Array; // Lowest sample in each bucket (-1 to 0)
+  max: Float32Array; // Highest sample in each bucket (0 to 1)
+}
+
+/**
+ * Peaks resampled to a fixed number of bars for drawing
+ */
+export interface WaveformPeaks {
+  min: Float32Array;
+  max: Float32Array;
+}
+
+// Messages exchanged with the waveform worker
+export interface PeaksRequest {
+  id: number;
+  channels: Float32Array[];
+  sampleRate: number;
+  bucketsPerSecond: number;
+}
+
+export interface PeaksResponse {
+  id: number;
+  min: Float32Array;
+  max: Float32Array;
+}
+
+// Fine enough to zoom into a one-second excerpt
+const BUCKETS_PER_SECOND = 50;
+// Waveforms kept in memory (about 250 KB each for a 10-minute track)
+const MAX_CACHED = 40;
+
+/**
+ * Reduce part of a waveform to a fixed number of bars
+ * @param start - Start of the section (seconds)
+ * @param end - End of the section (seconds)
+ * @param bars - Number of bars to draw
+ */
+export function getWaveformPeaks(
+  data: WaveformData,
+  start: number,
+  end: number,
+  bars: number
+): WaveformPeaks {
+  const min = new Float32Array(bars);
+  const max = new Float32Array(bars);
+  const bucketsPerBar = ((end - start) * data.bucketsPerSecond) / bars;
+  const firstBucket = start * data.bucketsPerSecond;
+
+  for (let bar = 0; bar < bars; bar++) {
+    const from = Math.max(0, Math.floor(firstBucket + bar * bucketsPerBar));
+    const to = Math.min(
+      data.min.length,
+      Math.max(from + 1, Math.floor(firstBucket + (bar + 1) * bucketsPerBar))
+    );
+    for (let i = from; i < to; i++) {
+      if (data.min[i] < min[bar]) min[bar] = data.min[i];
+      if (data.max[i] > max[bar]) max[bar] = data.max[i];
+    }
+  }
+  return { min, max };
+}
+
+/**
+ * Where an excerpt of the given length sits in the track (seconds).
+ * Reversed excerpts play backwards from the end of this section.
+ */
+export function getExcerptSection(
+  waveform: WaveformData,
+  startOffset: number,
+  length: number,
+  reversed: boolean
+): { start: number; end: number } {
+  if (reversed) {
+    const { end } = getReversedSection(startOffset, waveform.duration, getSettings().excerptLength);
+    return { start: Math.max(0, end - length), end };
+  }
+  return { start: startOffset, end: Math.min(waveform.duration, startOffset + length) };
+}
+
+/**
+ * Waveforms for recently played tracks. Decoding happens off the main thread
+ * (the browser decodes asynchronously, and peaks are computed in a worker).
+ */
+export class WaveformCache {
+  private waveforms: Map<string, WaveformData> = new Map();
+  private pending: Map<string, Promise<WaveformData>> = new Map();
+  private worker: Worker | null = null;
+  private requests: Map<
+    number,
+    { resolve: (response: PeaksResponse) => void; reject: (err: Error) => void }
+  > = new Map();
+  private nextRequestId = 0;
+
+  /**
+   * Get a track's waveform if it is already cached
+   */
+  get(track: Track): WaveformData | undefined {
+    return this.waveforms.get(getTrackIdentity(track));
+  }
+
+  /**
+   * Get a track's waveform, decoding it if needed.
+   * Concurrent requests for the same track share one decode.
+   */
+  load(track: Track): Promise<WaveformData> {
+    const key = getTrackIdentity(track);
+    const cached = this.waveforms.get(key);
+    if (cached) return Promise.resolve(cached);
+
+    let pending = this.pending.get(key);
+    if (!pending) {
+      pending = this.build(track)
+        .then((waveform) => {
+          this.store(key, waveform);
+          return waveform;
+        })
+        .finally(() => this.pending.delete(key));
+      this.pending.set(key, pending);
+    }
+    return pending;
+  }
+
+  private async build(track: Track): Promise<WaveformData> {
+    const buffer = await decodeForAnalysis(track.location);
+    // Copies, so the decoded buffer stays usable and the copies can be transferred
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) =>
+      buffer.getChannelData(c).slice()
+    );
+    const { min, max } = await this.computePeaks(channels, buffer.sampleRate);
+    return { duration: buffer.duration, bucketsPerSecond: BUCKETS_PER_SECOND, min, max };
+  }
+
+  /**
+   * Start the worker that computes peaks
+   */
+  private startWorker(): Worker {
+    const worker = new Worker(new URL("./waveform.worker.ts", import.meta.url), {
+      type: "module",
+    });
+    worker.addEventListener("message", (e: MessageEvent<PeaksResponse>) => {
+      const request = this.requests.get(e.data.id);
+      this.requests.delete(e.data.id);
+      request?.resolve(e.data);
+    });
+    worker.addEventListener("error", (e) => {
+      // Fail everything in flight; a new worker is started for the next request
+      for (const request of this.requests.values()) {
+        request.reject(new Error(`Waveform worker failed: ${e.message}`));
+      }
+      this.requests.clear();
+      worker.terminate();
+      if (this.worker === worker) {
+        this.worker = null;
+      }
+    });
+    this.worker = worker;
+    return worker;
+  }
+
+  private computePeaks(channels: Float32Array[], sampleRate: number): Promise<PeaksResponse> {
+    const worker = this.worker ?? this.startWorker();
+    const request: PeaksRequest = {
+      id: this.nextRequestId++,
+      channels,
+      sampleRate,
+      bucketsPerSecond: BUCKETS_PER_SECOND,
+    };
+    return new Promise((resolve, reject) => {
+      this.requests.set(request.id, { resolve, reject });
+      worker.postMessage(request, channels.map((data) => data.buffer));
+    });
+  }
+
+  /**
+   * Add a waveform, dropping the least recently added one when full
+   */
+  private store(key: string, waveform: WaveformData): void {
+    this.waveforms.set(key, waveform);
+    if (this.waveforms.size > MAX_CACHED) {
+      const oldest = this.waveforms.keys().next().value;
+      if (oldest !== undefined) {
+        this.waveforms.delete(oldest);
+      }
+    }
+  }
+}
+
+// Singleton instance
+let cacheInstance: WaveformCache | null = null;
+
+export function getWaveformCache(): WaveformCache {
+  if (!cacheInstance) {
+    cacheInstance = new WaveformCache();
+  }
+  return cacheInstance;
+}
@@ -0,0 +1,35 @@
+import type { PeaksRequest, PeaksResponse } from "./waveform";
+
+/**
+ * Computes waveform peaks off the main thread.
+ * Channels are mixed to mono, then reduced to a min/max pair per bucket.
+ */
+self.addEventListener("message", (e: MessageEvent<PeaksRequest>) => {
+  const { id, channels, sampleRate, bucketsPerSecond } = e.data;
+  const length = channels[0]?.length ?? 0;
+  const samplesPerBucket = sampleRate / bucketsPerSecond;
+  const bucketCount = Math.ceil(length / samplesPerBucket);
+  const min = new Float32Array(bucketCount);
+  const max = new Float32Array(bucketCount);
+
+  for (let bucket = 0; bucket < bucketCount; bucket++) {
+    const start = Math.floor(bucket * samplesPerBucket);
+    const end = Math.min(length, Math.floor((bucket + 1) * samplesPerBucket));
+    let low = 0;
+    let high = 0;
+    for (let i = start; i < end; i++) {
+      let sample = 0;
+      for (const data of channels) {
+        sample += data[i];
+      }
+      sample /= channels.length;
+      if (sample < low) low = sample;
+      if (sample > high) high = sample;
+    }
+    min[bucket] = low;
+    max[bucket] = high;
+  }
+
+  const response: PeaksResponse = { id, min, max };
+  self.postMessage(response, { transfer: [min.buffer, max.buffer] });
+});
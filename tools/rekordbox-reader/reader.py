@@ -12,6 +12,111 @@ import sys
 from pathlib import Path
 from urllib.parse import unquote
 
+# Colour tags by DjmdColor ID, named as the app names them
+COLOURS = {
+    1: "pink",
+    2: "red",
+    3: "orange",
+    4: "yellow",
+    5: "green",
+    6: "aqua",
+    7: "blue",
+    8: "purple",
+}
+
+# File formats by DjmdContent.FileType, named like the XML export's Kind attribute
+FILE_KINDS = {
+    1: "MP3 File",
+    4: "M4A File",
+    5: "FLAC File",
+    11: "WAV File",
+    12: "AIFF File",
+}
+
+
+def text_or_none(value):
+    """Strip a text column, treating blank values as missing."""
+    if value is None:
+        return None
+    text = str(value).strip()
+    return text or None
+
+
+def int_or_none(value):
+    """Read an integer column; some are stored as text."""
+    try:
+        return int(value)
+    except (TypeError, ValueError):
+        return None
+
+
+def name_of(related):
+    """Name of a linked row (artist, genre, label...), if there is one."""
+    return text_or_none(related.Name) if related is not None else None
+
+
+def read_metadata(content):
+    """
+    Read a track's tags in the same form the XML parser produces them, so
+    both sources give the app the same fields.
+    """
+    bpm = int_or_none(content.BPM)
+    year = int_or_none(content.ReleaseYear)
+    bitrate = int_or_none(content.BitRate)
+    date_added = text_or_none(content.DateCreated)
+    return {
+        # BPM is stored in hundredths
+        "bpm": bpm / 100.0 if bpm else None,
+        "key": text_or_none(content.Key.ScaleName) if content.Key is not None else None,
+        "genre": name_of(content.Genre),
+        "mixName": text_or_none(content.Subtitle),
+        "remixer": name_of(content.Remixer),
+        "composer": name_of(content.Composer),
+        "label": name_of(content.Label),
+        "year": year or None,
+        "rating": int_or_none(content.Rating),
+        "colour": COLOURS.get(int_or_none(content.ColorID)),
+        "comments": text_or_none(content.Commnt),
+        "dateAdded": date_added[:10] if date_added else None,
+        "playCount": int_or_none(content.DJPlayCount),
+        "bitrate": bitrate or None,
+        "kind": FILE_KINDS.get(int_or_none(content.FileType)),
+    }
+
+
+def read_beat_grid(db, content):
+    """
+    Read a track's beat grid from its ANLZ analysis file.
+
+    The analysis lists every beat; only the first beat and each tempo change
+    are emitted, which is enough to rebuild the grid.
+    """
+    try:
+        anlz_path = db.get_anlz_path(content, "DAT")
+        if not anlz_path or not Path(anlz_path).exists():
+            return []
+
+        from pyrekordbox.anlz import AnlzFile
+        anlz = AnlzFile.parse_file(anlz_path)
+        if "beat_grid" not in anlz:
+            return []
+        beats, bpms, times = anlz.get("beat_grid")
+    except Exception:
+        # Missing or unreadable analysis - the app falls back to unsnapped excerpts
+        return []
+
+    markers = []
+    for beat, bpm, time in zip(beats, bpms, times):
+        if markers and abs(markers[-1]["bpm"] - float(bpm)) < 0.01:
+            continue
+        markers.append({
+            "start": float(time),
+            "bpm": float(bpm),
+            "meter": 4,
+            "beat": int(beat),
+        })
+    return markers
+
 
 def main():
     try:
@@ -26,6 +131,26 @@ def main():
             print(f"Rekordbox database not found or could not be opened: {e}", file=sys.stderr)
             sys.exit(1)
 
+        # Collect memory and hot cues per track
+        # Kind 0 is a memory cue; hot cues A-C are kinds 1-3 and D-H are kinds 5-9
+        cues_by_content = {}
+        for cue in db.get_cue():
+            if cue.ContentID is None or cue.InMsec is None:
+                continue
+            kind = cue.Kind or 0
+            if kind == 0:
+                num = -1
+            elif kind < 4:
+                num = kind - 1
+            else:
+                num = kind - 2
+            cues_by_content.setdefault(str(cue.ContentID), []).append({
+                "name": cue.Comment or "",
+                "start": cue.InMsec / 1000.0,
+                "end": cue.OutMsec / 1000.0 if cue.OutMsec and cue.OutMsec > 0 else None,
+                "num": num,
+            })
+
         # Extract tracks
         tracks = []
         for content in db.get_content():
@@ -51,6 +176,9 @@ def main():
                 "album": content.Album.Name if content.Album else "",
                 "location": file_path or "",
                 "duration": duration,
+                **read_metadata(content),
+                "cues": cues_by_content.get(str(content.ID), []),
+                "beatGrid": read_beat_grid(db, content),
             }
             tracks.append(track)
 
@@ -79,9 +207,12 @@ def main():
                     node["type"] = "playlist"
                     # Smart playlists don't have static track lists
                     if playlist.is_smart_playlist:
-                        # Can't evaluate smart playlist rules, so skip tracks
+                        # The app evaluates the rules against the track metadata.
+                        # Conditions name properties as in pyrekordbox's
+                        # smartlist.Property; fixtures/smart-lists.json has samples.
                         node["trackIds"] = []
                         node["isSmartPlaylist"] = True
+                        node["smartList"] = playlist.SmartList
                     else:
                         # Get track IDs for regular playlists
                         track_ids = []